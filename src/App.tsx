@@ -4,10 +4,14 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { CommandPaletteProvider } from "@/contexts/CommandPaletteContext";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import ProjectBoard from "./pages/ProjectBoard";
+import AcceptInvite from "./pages/AcceptInvite";
+import ProjectSettings from "./pages/ProjectSettings";
+import MyTasks from "./pages/MyTasks";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -19,14 +23,20 @@ const App = () => (
         <Toaster />
         <Sonner />
         <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/auth" element={<Auth />} />
-            <Route path="/dashboard" element={<Dashboard />} />
-            <Route path="/project/:projectId" element={<ProjectBoard />} />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
+          <CommandPaletteProvider>
+            <Routes>
+              <Route path="/" element={<Index />} />
+              <Route path="/auth" element={<Auth />} />
+              <Route path="/dashboard" element={<Dashboard />} />
+              <Route path="/my-tasks" element={<MyTasks />} />
+              <Route path="/project/:projectId" element={<ProjectBoard />} />
+              <Route path="/project/:projectId/board/:boardId" element={<ProjectBoard />} />
+              <Route path="/project/:projectId/settings" element={<ProjectSettings />} />
+              <Route path="/invite/:token" element={<AcceptInvite />} />
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </CommandPaletteProvider>
         </BrowserRouter>
       </TooltipProvider>
     </AuthProvider>
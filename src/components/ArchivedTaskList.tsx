@@ -0,0 +1,62 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { ArchiveRestore } from 'lucide-react';
+
+interface ArchivedTask {
+  id: string;
+  title: string;
+  parent_task_id: string | null;
+  archived_at: string | null;
+}
+
+interface ArchivedTaskListProps {
+  tasks: ArchivedTask[];
+  onOpenTask: (taskId: string) => void;
+  onUnarchive: (taskId: string) => void;
+}
+
+const ArchivedTaskList: React.FC<ArchivedTaskListProps> = ({ tasks, onOpenTask, onUnarchive }) => {
+  // Subtasks archived with their parent come back with it, so only list them when archived alone
+  const listedTasks = tasks
+    .filter(task => !tasks.some(t => t.id === task.parent_task_id))
+    .sort((a, b) => new Date(b.archived_at).getTime() - new Date(a.archived_at).getTime());
+
+  if (listedTasks.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <h3 className="text-xl font-semibold mb-2">No archived tasks</h3>
+        <p className="text-muted-foreground">Archived tasks leave the board but can be brought back from here</p>
+      </div>
+    );
+  }
+
+  return (
+    <Card className="max-w-3xl">
+      <CardContent className="p-0 divide-y">
+        {listedTasks.map((task) => (
+          <div key={task.id} className="flex items-center gap-4 px-4 py-3">
+            <div className="flex-1 min-w-0">
+              <button
+                type="button"
+                className="block truncate text-left font-medium hover:underline"
+                onClick={() => onOpenTask(task.id)}
+              >
+                {task.title}
+              </button>
+              <p className="text-xs text-muted-foreground">
+                Archived {new Date(task.archived_at).toLocaleDateString()}
+              </p>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => onUnarchive(task.id)}>
+              <ArchiveRestore className="h-4 w-4 mr-2" />
+              Unarchive
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ArchivedTaskList;
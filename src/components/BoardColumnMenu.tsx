@@ -0,0 +1,271 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { BoardColumn } from '@/lib/columns';
+import { COLORS } from '@/lib/colors';
+import { cn } from '@/lib/utils';
+import { ArrowLeft, ArrowRight, MoreHorizontal, Palette, Pencil, Trash2 } from 'lucide-react';
+
+interface BoardColumnMenuProps {
+  column: BoardColumn;
+  columns: BoardColumn[];
+  taskCount: number;
+  onColumnsUpdate: () => Promise<void> | void;
+}
+
+const BoardColumnMenu: React.FC<BoardColumnMenuProps> = ({ column, columns, taskCount, onColumnsUpdate }) => {
+  const [isRenameOpen, setIsRenameOpen] = useState(false);
+  const [renameValue, setRenameValue] = useState(column.name);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [targetColumnId, setTargetColumnId] = useState('');
+  const { toast } = useToast();
+
+  const index = columns.findIndex(c => c.id === column.id);
+  const otherColumns = columns.filter(c => c.id !== column.id);
+
+  const showError = (error: unknown) => {
+    toast({
+      title: 'Error',
+      description: (error as Error).message,
+      variant: 'destructive'
+    });
+  };
+
+  const updateColumn = async (changes: Partial<Pick<BoardColumn, 'name' | 'color' | 'is_done'>>) => {
+    try {
+      const { error } = await supabase
+        .from('board_columns')
+        .update(changes)
+        .eq('id', column.id);
+
+      if (error) throw error;
+      await onColumnsUpdate();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsRenameOpen(false);
+    await updateColumn({ name: renameValue.trim() });
+  };
+
+  const handleMove = async (direction: -1 | 1) => {
+    const neighbor = columns[index + direction];
+    if (!neighbor) return;
+
+    try {
+      // Swap positions with the neighbouring column
+      const { error: firstError } = await supabase
+        .from('board_columns')
+        .update({ position: neighbor.position })
+        .eq('id', column.id);
+
+      if (firstError) throw firstError;
+
+      const { error: secondError } = await supabase
+        .from('board_columns')
+        .update({ position: column.position })
+        .eq('id', neighbor.id);
+
+      if (secondError) throw secondError;
+
+      await onColumnsUpdate();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const openDeleteDialog = () => {
+    setTargetColumnId(otherColumns[0]?.id ?? '');
+    setIsDeleteOpen(true);
+  };
+
+  const handleDelete = async () => {
+    setIsDeleteOpen(false);
+
+    try {
+      // Tasks must live in a column, so move them out before deleting. This runs even
+      // for an empty column because tasks in the trash still point at it.
+      const { data: columnTasks, error: tasksError } = await supabase
+        .from('tasks')
+        .select('id')
+        .eq('column_id', column.id);
+
+      if (tasksError) throw tasksError;
+
+      if (columnTasks.length > 0) {
+        // Appended below the target column's cards, keeping their order
+        const { error: moveError } = await supabase.rpc('move_tasks_to_column', {
+          p_task_ids: columnTasks.map(t => t.id),
+          p_column_id: targetColumnId
+        });
+
+        if (moveError) throw moveError;
+      }
+
+      const { error } = await supabase
+        .from('board_columns')
+        .delete()
+        .eq('id', column.id);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Success',
+        description: `Column "${column.name}" deleted`
+      });
+
+      await onColumnsUpdate();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="sm" variant="ghost">
+            <MoreHorizontal className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem
+            onClick={() => {
+              setRenameValue(column.name);
+              setIsRenameOpen(true);
+            }}
+          >
+            <Pencil className="h-4 w-4 mr-2" />
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>
+              <Palette className="h-4 w-4 mr-2" />
+              Color
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {Object.entries(COLORS).map(([key, color]) => (
+                <DropdownMenuCheckboxItem
+                  key={key}
+                  checked={column.color === key}
+                  onCheckedChange={() => updateColumn({ color: key })}
+                >
+                  <span className={cn('h-3 w-3 rounded-full mr-2', color.swatch)} />
+                  {color.label}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuCheckboxItem
+            checked={column.is_done}
+            onCheckedChange={(checked) => updateColumn({ is_done: checked })}
+          >
+            Counts as done
+          </DropdownMenuCheckboxItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem disabled={index <= 0} onClick={() => handleMove(-1)}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Move left
+          </DropdownMenuItem>
+          <DropdownMenuItem disabled={index === columns.length - 1} onClick={() => handleMove(1)}>
+            <ArrowRight className="h-4 w-4 mr-2" />
+            Move right
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            disabled={otherColumns.length === 0}
+            className="text-destructive"
+            onClick={openDeleteDialog}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Rename Column Dialog */}
+      <Dialog open={isRenameOpen} onOpenChange={setIsRenameOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename Column</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleRename} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor={`column-rename-${column.id}`}>Column Name</Label>
+              <Input
+                id={`column-rename-${column.id}`}
+                value={renameValue}
+                onChange={(e) => setRenameValue(e.target.value)}
+                required
+              />
+            </div>
+            <Button type="submit" className="w-full">Save</Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Column Confirmation */}
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{column.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {taskCount > 0
+                ? `This column has ${taskCount} task${taskCount !== 1 ? 's' : ''}. Choose where to move them.`
+                : 'This column is empty and will be removed from the board.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {taskCount > 0 && (
+            <Select value={targetColumnId} onValueChange={setTargetColumnId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {otherColumns.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default BoardColumnMenu;
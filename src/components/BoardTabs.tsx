@@ -0,0 +1,375 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { Archive, ArchiveRestore, ArrowLeft, ArrowRight, MoreHorizontal, Pencil, Plus, Trash2 } from 'lucide-react';
+
+export interface Board {
+  id: string;
+  name: string;
+  description: string | null;
+  position: number;
+  archived_at: string | null;
+}
+
+interface BoardTabsProps {
+  projectId: string;
+  boards: Board[];
+  activeBoardId: string | null;
+  onSelectBoard: (boardId: string) => void;
+  onBoardsUpdate: () => Promise<void> | void;
+  canManage: boolean;
+}
+
+const BoardTabs: React.FC<BoardTabsProps> = ({ projectId, boards, activeBoardId, onSelectBoard, onBoardsUpdate, canManage }) => {
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [newBoardName, setNewBoardName] = useState('');
+  const [renamingBoard, setRenamingBoard] = useState<Board | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [deletingBoard, setDeletingBoard] = useState<Board | null>(null);
+  const { toast } = useToast();
+
+  const activeBoards = boards.filter(b => !b.archived_at).sort((a, b) => a.position - b.position);
+  const archivedBoards = boards.filter(b => b.archived_at);
+
+  const showError = (error: unknown) => {
+    toast({
+      title: 'Error',
+      description: (error as Error).message,
+      variant: 'destructive'
+    });
+  };
+
+  const handleCreateBoard = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const maxPosition = Math.max(...boards.map(b => b.position), -1);
+
+      const { data, error } = await supabase
+        .from('boards')
+        .insert([
+          {
+            project_id: projectId,
+            name: newBoardName.trim(),
+            position: maxPosition + 1
+          }
+        ])
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setNewBoardName('');
+      setIsCreateOpen(false);
+      await onBoardsUpdate();
+      onSelectBoard(data.id);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleRenameBoard = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!renamingBoard) return;
+
+    try {
+      const { error } = await supabase
+        .from('boards')
+        .update({ name: renameValue.trim() })
+        .eq('id', renamingBoard.id);
+
+      if (error) throw error;
+
+      setRenamingBoard(null);
+      await onBoardsUpdate();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleMoveBoard = async (board: Board, direction: -1 | 1) => {
+    const index = activeBoards.findIndex(b => b.id === board.id);
+    const neighbor = activeBoards[index + direction];
+    if (!neighbor) return;
+
+    try {
+      // Swap positions with the neighbouring board
+      const { error: firstError } = await supabase
+        .from('boards')
+        .update({ position: neighbor.position })
+        .eq('id', board.id);
+
+      if (firstError) throw firstError;
+
+      const { error: secondError } = await supabase
+        .from('boards')
+        .update({ position: board.position })
+        .eq('id', neighbor.id);
+
+      if (secondError) throw secondError;
+
+      await onBoardsUpdate();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleArchiveBoard = async (board: Board, archive: boolean) => {
+    if (archive && activeBoards.length <= 1) {
+      toast({
+        title: 'Error',
+        description: 'A project needs at least one active board',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('boards')
+        .update({ archived_at: archive ? new Date().toISOString() : null })
+        .eq('id', board.id);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Success',
+        description: archive ? `Board "${board.name}" archived` : `Board "${board.name}" restored`
+      });
+
+      await onBoardsUpdate();
+      if (archive && board.id === activeBoardId) {
+        onSelectBoard(activeBoards.find(b => b.id !== board.id)!.id);
+      } else if (!archive) {
+        onSelectBoard(board.id);
+      }
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleDeleteBoard = async () => {
+    if (!deletingBoard) return;
+    const board = deletingBoard;
+    setDeletingBoard(null);
+
+    if (!board.archived_at && activeBoards.length <= 1) {
+      toast({
+        title: 'Error',
+        description: 'A project needs at least one active board',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('boards')
+        .delete()
+        .eq('id', board.id);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Success',
+        description: `Board "${board.name}" deleted`
+      });
+
+      await onBoardsUpdate();
+      if (board.id === activeBoardId) {
+        onSelectBoard(activeBoards.find(b => b.id !== board.id)!.id);
+      }
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const openRenameDialog = (board: Board) => {
+    setRenameValue(board.name);
+    setRenamingBoard(board);
+  };
+
+  return (
+    <div className="flex items-center gap-1 overflow-x-auto">
+      {activeBoards.map((board, index) => (
+        <div
+          key={board.id}
+          className={cn(
+            'flex items-center rounded-md border text-sm',
+            board.id === activeBoardId ? 'bg-background border-border shadow-sm' : 'border-transparent hover:bg-muted'
+          )}
+        >
+          <button
+            type="button"
+            className="px-3 py-1.5 font-medium whitespace-nowrap"
+            onClick={() => onSelectBoard(board.id)}
+          >
+            {board.name}
+          </button>
+          {canManage && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0">
+                  <MoreHorizontal className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                <DropdownMenuItem onClick={() => openRenameDialog(board)}>
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Rename
+                </DropdownMenuItem>
+                <DropdownMenuItem disabled={index === 0} onClick={() => handleMoveBoard(board, -1)}>
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  Move left
+                </DropdownMenuItem>
+                <DropdownMenuItem disabled={index === activeBoards.length - 1} onClick={() => handleMoveBoard(board, 1)}>
+                  <ArrowRight className="h-4 w-4 mr-2" />
+                  Move right
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem disabled={activeBoards.length <= 1} onClick={() => handleArchiveBoard(board, true)}>
+                  <Archive className="h-4 w-4 mr-2" />
+                  Archive
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  disabled={activeBoards.length <= 1}
+                  className="text-destructive"
+                  onClick={() => setDeletingBoard(board)}
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
+      ))}
+
+      {canManage && (
+        <Button variant="ghost" size="sm" onClick={() => setIsCreateOpen(true)}>
+          <Plus className="h-4 w-4 mr-1" />
+          New Board
+        </Button>
+      )}
+
+      {archivedBoards.length > 0 && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="text-muted-foreground">
+              <Archive className="h-4 w-4 mr-1" />
+              Archived ({archivedBoards.length})
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            <DropdownMenuLabel>Archived boards</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {archivedBoards.map((board) => (
+              <div key={board.id} className="flex items-center justify-between gap-2 px-2 py-1 text-sm">
+                <button type="button" className="truncate hover:underline" onClick={() => onSelectBoard(board.id)}>
+                  {board.name}
+                </button>
+                {canManage && (
+                  <div className="flex">
+                    <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => handleArchiveBoard(board, false)}>
+                      <ArchiveRestore className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setDeletingBoard(board)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      {/* Create Board Dialog */}
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create New Board</DialogTitle>
+            <DialogDescription>
+              Boards let you keep separate streams of work apart, like a sprint and a backlog
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCreateBoard} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="board-name">Board Name</Label>
+              <Input
+                id="board-name"
+                placeholder="Enter board name"
+                value={newBoardName}
+                onChange={(e) => setNewBoardName(e.target.value)}
+                required
+              />
+            </div>
+            <Button type="submit" className="w-full">Create Board</Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Rename Board Dialog */}
+      <Dialog open={!!renamingBoard} onOpenChange={(open) => !open && setRenamingBoard(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename Board</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleRenameBoard} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="board-rename">Board Name</Label>
+              <Input
+                id="board-rename"
+                value={renameValue}
+                onChange={(e) => setRenameValue(e.target.value)}
+                required
+              />
+            </div>
+            <Button type="submit" className="w-full">Save</Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Board Confirmation */}
+      <AlertDialog open={!!deletingBoard} onOpenChange={(open) => !open && setDeletingBoard(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deletingBoard?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently deletes the board together with all of its tasks and comments.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteBoard}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default BoardTabs;
@@ -0,0 +1,167 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ASSIGNEE_ME,
+  ASSIGNEE_NONE,
+  BoardFilters,
+  DUE_OPTIONS,
+  DueFilter,
+  EMPTY_FILTERS,
+  hasActiveFilters
+} from '@/lib/filters';
+import { TaskLabel } from '@/lib/labels';
+import { PRIORITY_OPTIONS, TaskPriority } from '@/lib/priorities';
+import { Search, X } from 'lucide-react';
+
+interface ProjectMember {
+  user_id: string;
+  profiles: { display_name: string | null };
+}
+
+interface BoardToolbarProps {
+  filters: BoardFilters;
+  onFiltersChange: (filters: BoardFilters) => void;
+  labels: TaskLabel[];
+  members: ProjectMember[];
+  currentUserId: string | undefined;
+  visibleCount: number;
+  totalCount: number;
+}
+
+const ALL = 'all';
+
+const BoardToolbar: React.FC<BoardToolbarProps> = ({
+  filters,
+  onFiltersChange,
+  labels,
+  members,
+  currentUserId,
+  visibleCount,
+  totalCount
+}) => {
+  const isFiltered = hasActiveFilters(filters);
+  const otherMembers = members.filter(m => m.user_id !== currentUserId);
+
+  const memberName = (member: ProjectMember) => member.profiles?.display_name || 'Unknown User';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-6">
+      <div className="relative w-56">
+        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search tasks..."
+          value={filters.q ?? ''}
+          onChange={(e) => onFiltersChange({ ...filters, q: e.target.value || null })}
+          className="h-9 pl-8"
+        />
+      </div>
+
+      <Select
+        value={filters.assignee ?? ALL}
+        onValueChange={(value) => onFiltersChange({ ...filters, assignee: value === ALL ? null : value })}
+      >
+        <SelectTrigger className="h-9 w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>Any assignee</SelectItem>
+          <SelectItem value={ASSIGNEE_ME}>Assigned to me</SelectItem>
+          <SelectItem value={ASSIGNEE_NONE}>Unassigned</SelectItem>
+          {otherMembers.map((member) => (
+            <SelectItem key={member.user_id} value={member.user_id}>
+              {memberName(member)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filters.due ?? ALL}
+        onValueChange={(value) => onFiltersChange({ ...filters, due: value === ALL ? null : value as DueFilter })}
+      >
+        <SelectTrigger className="h-9 w-36">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>Any due date</SelectItem>
+          {DUE_OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filters.priority ?? ALL}
+        onValueChange={(value) => onFiltersChange({ ...filters, priority: value === ALL ? null : value as TaskPriority })}
+      >
+        <SelectTrigger className="h-9 w-36">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>Any priority</SelectItem>
+          {PRIORITY_OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filters.label ?? ALL}
+        onValueChange={(value) => onFiltersChange({ ...filters, label: value === ALL ? null : value })}
+      >
+        <SelectTrigger className="h-9 w-36">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>Any label</SelectItem>
+          {labels.map((label) => (
+            <SelectItem key={label.id} value={label.id}>
+              {label.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filters.creator ?? ALL}
+        onValueChange={(value) => onFiltersChange({ ...filters, creator: value === ALL ? null : value })}
+      >
+        <SelectTrigger className="h-9 w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>Any creator</SelectItem>
+          {members.map((member) => (
+            <SelectItem key={member.user_id} value={member.user_id}>
+              {member.user_id === currentUserId ? 'Created by me' : memberName(member)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {isFiltered && (
+        <>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onFiltersChange(EMPTY_FILTERS)}
+          >
+            <X className="h-4 w-4 mr-1" />
+            Clear filters
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Showing {visibleCount} of {totalCount} tasks
+          </span>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BoardToolbar;
@@ -0,0 +1,274 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ToastAction } from '@/components/ui/toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Board } from '@/components/BoardTabs';
+import { BoardColumn } from '@/lib/columns';
+import { toDueDate } from '@/lib/due';
+import { setTasksArchived, setTasksDeleted } from '@/lib/trash';
+import { format } from 'date-fns';
+import { Archive, ArrowRight, Calendar as CalendarIcon, CircleDot, Trash2, UserPlus, X } from 'lucide-react';
+
+interface BulkActionBarProps {
+  taskIds: string[];
+  columns: BoardColumn[];
+  members: { user_id: string; profiles: { display_name: string | null } }[];
+  boards: Board[];
+  currentBoardId: string;
+  canDelete: boolean;
+  onClear: () => void;
+  onComplete: () => void;
+}
+
+const countTasks = (count: number) => `${count} task${count === 1 ? '' : 's'}`;
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  taskIds,
+  columns,
+  members,
+  boards,
+  currentBoardId,
+  canDelete,
+  onClear,
+  onComplete
+}) => {
+  const [isDueDateOpen, setIsDueDateOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const targetBoards = boards.filter(b => b.id !== currentBoardId && !b.archived_at);
+  const getMemberName = (userId: string) =>
+    members.find(m => m.user_id === userId)?.profiles?.display_name || 'Unknown User';
+
+  const showError = (error: unknown) => {
+    toast({
+      title: 'Error',
+      description: (error as Error).message,
+      variant: 'destructive'
+    });
+  };
+
+  // Every action is a single request, followed by one summary toast
+  const runAction = async (action: () => Promise<string>, undo?: () => Promise<void>) => {
+    setIsLoading(true);
+    try {
+      const summary = await action();
+      toast({
+        title: 'Success',
+        description: summary,
+        action: undo && (
+          <ToastAction
+            altText="Undo"
+            onClick={() => undo().then(onComplete).catch(showError)}
+          >
+            Undo
+          </ToastAction>
+        )
+      });
+      onComplete();
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleStatusChange = (column: BoardColumn) => runAction(async () => {
+    const { error } = await supabase.rpc('move_tasks_to_column', {
+      p_task_ids: taskIds,
+      p_column_id: column.id
+    });
+
+    if (error) throw error;
+    return `Moved ${countTasks(taskIds.length)} to ${column.name}`;
+  });
+
+  const handleAssign = (userId: string) => runAction(async () => {
+    const { error } = await supabase
+      .from('task_assignments')
+      .upsert(
+        taskIds.map(taskId => ({ task_id: taskId, user_id: userId })),
+        { onConflict: 'task_id,user_id', ignoreDuplicates: true }
+      );
+
+    if (error) throw error;
+    return `Assigned ${getMemberName(userId)} to ${countTasks(taskIds.length)}`;
+  });
+
+  const handleUnassign = (userId: string) => runAction(async () => {
+    const { error } = await supabase
+      .from('task_assignments')
+      .delete()
+      .eq('user_id', userId)
+      .in('task_id', taskIds);
+
+    if (error) throw error;
+    return `Unassigned ${getMemberName(userId)} from ${countTasks(taskIds.length)}`;
+  });
+
+  const handleDueDateChange = (date: Date | undefined) => {
+    setIsDueDateOpen(false);
+    runAction(async () => {
+      const dueDate = date ? toDueDate(format(date, 'yyyy-MM-dd')) : null;
+      const { error } = await supabase
+        .from('tasks')
+        .update({ due_date: dueDate })
+        .in('id', taskIds);
+
+      if (error) throw error;
+      return date
+        ? `Set the due date of ${countTasks(taskIds.length)} to ${date.toLocaleDateString()}`
+        : `Cleared the due date of ${countTasks(taskIds.length)}`;
+    });
+  };
+
+  const handleMoveToBoard = (board: Board) => runAction(async () => {
+    const { data, error } = await supabase.rpc('move_tasks_to_board', {
+      p_task_ids: taskIds,
+      p_board_id: board.id
+    });
+
+    if (error) throw error;
+    // Subtasks travel with their parents, so the count can exceed the selection
+    return `Moved ${countTasks(data ?? taskIds.length)} to ${board.name}`;
+  });
+
+  const handleArchive = () => {
+    // Capture the ids now; the selection is cleared once the action completes
+    const ids = taskIds;
+    runAction(async () => {
+      await setTasksArchived(ids, true);
+      return `Archived ${countTasks(ids.length)}`;
+    }, () => setTasksArchived(ids, false));
+  };
+
+  const handleDelete = () => {
+    const ids = taskIds;
+    runAction(async () => {
+      await setTasksDeleted(ids, true);
+      return `Moved ${countTasks(ids.length)} to the trash`;
+    }, () => setTasksDeleted(ids, false));
+  };
+
+  return (
+    <div className="fixed bottom-6 left-1/2 z-40 flex -translate-x-1/2 items-center gap-2 rounded-lg border bg-card px-4 py-2 shadow-lg">
+      <span className="mr-2 text-sm font-medium">{taskIds.length} selected</span>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={isLoading}>
+            <CircleDot className="h-4 w-4 mr-2" />
+            Status
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="center" side="top">
+          {columns.map((column) => (
+            <DropdownMenuItem key={column.id} onClick={() => handleStatusChange(column)}>
+              {column.name}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={isLoading}>
+            <UserPlus className="h-4 w-4 mr-2" />
+            Assignees
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="center" side="top">
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>Assign</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {members.map((member) => (
+                <DropdownMenuItem key={member.user_id} onClick={() => handleAssign(member.user_id)}>
+                  {getMemberName(member.user_id)}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>Unassign</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {members.map((member) => (
+                <DropdownMenuItem key={member.user_id} onClick={() => handleUnassign(member.user_id)}>
+                  {getMemberName(member.user_id)}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Popover open={isDueDateOpen} onOpenChange={setIsDueDateOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" disabled={isLoading}>
+            <CalendarIcon className="h-4 w-4 mr-2" />
+            Due date
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="center" side="top">
+          <Calendar mode="single" onSelect={handleDueDateChange} />
+          <div className="border-t p-2">
+            <Button variant="ghost" size="sm" className="w-full" onClick={() => handleDueDateChange(undefined)}>
+              Clear due date
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      {targetBoards.length > 0 && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={isLoading}>
+              <ArrowRight className="h-4 w-4 mr-2" />
+              Move
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="center" side="top">
+            <DropdownMenuLabel>Move to board</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {targetBoards.map((board) => (
+              <DropdownMenuItem key={board.id} onClick={() => handleMoveToBoard(board)}>
+                {board.name}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      <Button variant="outline" size="sm" disabled={isLoading} onClick={handleArchive}>
+        <Archive className="h-4 w-4 mr-2" />
+        Archive
+      </Button>
+
+      {canDelete && (
+        <Button variant="outline" size="sm" disabled={isLoading} onClick={handleDelete}>
+          <Trash2 className="h-4 w-4 mr-2" />
+          Delete
+        </Button>
+      )}
+
+      <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={onClear} aria-label="Clear selection">
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
+
+export default BulkActionBar;
@@ -0,0 +1,222 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList
+} from '@/components/ui/command';
+import { useAuth } from '@/contexts/AuthContext';
+import { PaletteCommand } from '@/contexts/CommandPaletteContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { fuzzyMatch, fuzzyPattern, getRecentIds, sortByRecency } from '@/lib/recent';
+import { Columns3, FileText, FolderKanban, LayoutDashboard, ListTodo, LogOut } from 'lucide-react';
+
+interface PaletteProject {
+  id: string;
+  name: string;
+  updated_at: string;
+}
+
+interface PaletteBoard {
+  id: string;
+  name: string;
+  project_id: string;
+  updated_at: string;
+}
+
+interface PaletteTask {
+  id: string;
+  title: string;
+  board_id: string;
+  updated_at: string;
+  board: { name: string; project_id: string };
+}
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  pageCommands: PaletteCommand[];
+}
+
+const RESULT_LIMIT = 8;
+const SEARCH_DELAY = 150;
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ open, onOpenChange, pageCommands }) => {
+  const [search, setSearch] = useState('');
+  const [projects, setProjects] = useState<PaletteProject[]>([]);
+  const [boards, setBoards] = useState<PaletteBoard[]>([]);
+  const [tasks, setTasks] = useState<PaletteTask[]>([]);
+  const latestSearchRef = useRef(0);
+  const { signOut } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (open) {
+      setSearch('');
+      fetchProjectsAndBoards();
+    }
+  }, [open]);
+
+  // Tasks are searched in the database since there are too many to load up front
+  useEffect(() => {
+    if (!open) return;
+
+    const timeout = setTimeout(() => fetchTasks(search.trim()), SEARCH_DELAY);
+    return () => clearTimeout(timeout);
+  }, [open, search]);
+
+  const fetchProjectsAndBoards = async () => {
+    try {
+      const { data: projectData, error: projectError } = await supabase
+        .from('projects')
+        .select('id, name, updated_at, project_members!inner(id)')
+        .is('archived_at', null);
+
+      if (projectError) throw projectError;
+
+      const { data: boardData, error: boardError } = await supabase
+        .from('boards')
+        .select('id, name, project_id, updated_at')
+        .in('project_id', projectData.map(p => p.id))
+        .is('archived_at', null);
+
+      if (boardError) throw boardError;
+
+      setProjects(projectData);
+      setBoards(boardData);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load projects',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const fetchTasks = async (query: string) => {
+    // Responses can arrive out of order while typing; only keep the latest
+    const request = ++latestSearchRef.current;
+
+    let taskQuery = supabase
+      .from('tasks')
+      .select('id, title, board_id, updated_at, board:boards(name, project_id)')
+      .is('deleted_at', null);
+
+    // Without a query, offer the tasks opened most recently
+    taskQuery = query
+      ? taskQuery.ilike('title', fuzzyPattern(query)).order('updated_at', { ascending: false }).limit(50)
+      : taskQuery.in('id', getRecentIds('task', RESULT_LIMIT));
+
+    const { data, error } = await taskQuery;
+
+    if (request !== latestSearchRef.current) return;
+    setTasks(error ? [] : data);
+  };
+
+  const runCommand = (action: () => void) => {
+    onOpenChange(false);
+    action();
+  };
+
+  const handleSignOut = async () => {
+    await signOut();
+    navigate('/auth');
+  };
+
+  const commands: PaletteCommand[] = [
+    ...pageCommands,
+    { id: 'dashboard', label: 'Go to Dashboard', icon: LayoutDashboard, onSelect: () => navigate('/dashboard') },
+    { id: 'my-tasks', label: 'Go to My Tasks', icon: ListTodo, onSelect: () => navigate('/my-tasks') },
+    { id: 'sign-out', label: 'Sign out', icon: LogOut, onSelect: handleSignOut }
+  ];
+
+  const query = search.trim();
+  const matchingCommands = commands.filter(c => fuzzyMatch(c.label, query));
+  const matchingTasks = sortByRecency(tasks, 'task').slice(0, RESULT_LIMIT);
+  const matchingBoards = sortByRecency(boards.filter(b => fuzzyMatch(b.name, query)), 'board').slice(0, RESULT_LIMIT);
+  const matchingProjects = sortByRecency(projects.filter(p => fuzzyMatch(p.name, query)), 'project').slice(0, RESULT_LIMIT);
+  const getProjectName = (projectId: string) => projects.find(p => p.id === projectId)?.name;
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange} shouldFilter={false}>
+      <CommandInput
+        placeholder="Search projects, boards and tasks, or type a command..."
+        value={search}
+        onValueChange={setSearch}
+      />
+      <CommandList>
+        <CommandEmpty>No results found.</CommandEmpty>
+
+        {matchingCommands.length > 0 && (
+          <CommandGroup heading="Commands">
+            {matchingCommands.map((command) => (
+              <CommandItem key={command.id} value={`command:${command.id}`} onSelect={() => runCommand(command.onSelect)}>
+                <command.icon className="mr-2 h-4 w-4" />
+                {command.label}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {matchingTasks.length > 0 && (
+          <CommandGroup heading={query ? 'Tasks' : 'Recent tasks'}>
+            {matchingTasks.map((task) => (
+              <CommandItem
+                key={task.id}
+                value={`task:${task.id}`}
+                onSelect={() => runCommand(() => navigate(
+                  `/project/${task.board.project_id}/board/${task.board_id}?task=${task.id}`,
+                  { state: { backOnClose: true } }
+                ))}
+              >
+                <FileText className="mr-2 h-4 w-4" />
+                <span className="truncate">{task.title}</span>
+                <span className="ml-auto pl-2 text-xs text-muted-foreground truncate">{task.board?.name}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {matchingBoards.length > 0 && (
+          <CommandGroup heading="Boards">
+            {matchingBoards.map((board) => (
+              <CommandItem
+                key={board.id}
+                value={`board:${board.id}`}
+                onSelect={() => runCommand(() => navigate(`/project/${board.project_id}/board/${board.id}`))}
+              >
+                <Columns3 className="mr-2 h-4 w-4" />
+                <span className="truncate">{board.name}</span>
+                <span className="ml-auto pl-2 text-xs text-muted-foreground truncate">
+                  {getProjectName(board.project_id)}
+                </span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {matchingProjects.length > 0 && (
+          <CommandGroup heading="Projects">
+            {matchingProjects.map((project) => (
+              <CommandItem
+                key={project.id}
+                value={`project:${project.id}`}
+                onSelect={() => runCommand(() => navigate(`/project/${project.id}`))}
+              >
+                <FolderKanban className="mr-2 h-4 w-4" />
+                <span className="truncate">{project.name}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { Input } from '@/components/ui/input';
+
+interface InlineTitleInputProps {
+  title: string;
+  onSave: (title: string) => void;
+  onCancel: () => void;
+}
+
+// Enter or leaving the field saves, Escape discards
+const InlineTitleInput: React.FC<InlineTitleInputProps> = ({ title, onSave, onCancel }) => {
+  const [value, setValue] = useState(title);
+
+  const finish = () => {
+    const trimmed = value.trim();
+    if (trimmed && trimmed !== title) {
+      onSave(trimmed);
+    } else {
+      onCancel();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Keep the keys away from the card's drag handle
+    e.stopPropagation();
+
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      finish();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onCancel();
+    }
+  };
+
+  return (
+    <Input
+      autoFocus
+      aria-label="Task title"
+      className="mb-2 h-8"
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onFocus={(e) => e.target.select()}
+      onKeyDown={handleKeyDown}
+      onBlur={finish}
+      onClick={(e) => e.stopPropagation()}
+    />
+  );
+};
+
+export default InlineTitleInput;
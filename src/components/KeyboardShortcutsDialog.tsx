@@ -0,0 +1,50 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+interface KeyboardShortcutsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SHORTCUTS: { keys: string[]; description: string }[] = [
+  { keys: ['j', '↓'], description: 'Next card' },
+  { keys: ['k', '↑'], description: 'Previous card' },
+  { keys: ['h', '←'], description: 'Previous column' },
+  { keys: ['l', '→'], description: 'Next column' },
+  { keys: ['Enter'], description: 'Open the focused card' },
+  { keys: ['e'], description: 'Edit the title of the focused card' },
+  { keys: ['c'], description: 'Create a task in the focused column' },
+  { keys: ['1–9'], description: 'Move the focused card to that column' },
+  { keys: ['Space'], description: 'Pick up or drop the focused card, then move it with the arrow keys' },
+  { keys: ['⌘/Ctrl K'], description: 'Search and run commands' },
+  { keys: ['⌘/Ctrl Z'], description: 'Undo' },
+  { keys: ['⌘/Ctrl ⇧ Z'], description: 'Redo' },
+  { keys: ['?'], description: 'Show this list' }
+];
+
+const KeyboardShortcutsDialog: React.FC<KeyboardShortcutsDialogProps> = ({ isOpen, onClose }) => (
+  <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+    <DialogContent>
+      <DialogHeader>
+        <DialogTitle>Keyboard shortcuts</DialogTitle>
+        <DialogDescription>Board shortcuts are paused while typing in a field</DialogDescription>
+      </DialogHeader>
+      <div className="divide-y">
+        {SHORTCUTS.map((shortcut) => (
+          <div key={shortcut.description} className="flex items-center justify-between gap-4 py-2 text-sm">
+            <span>{shortcut.description}</span>
+            <span className="flex shrink-0 gap-1">
+              {shortcut.keys.map((key) => (
+                <kbd key={key} className="rounded border bg-muted px-1.5 py-0.5 font-mono text-xs">
+                  {key}
+                </kbd>
+              ))}
+            </span>
+          </div>
+        ))}
+      </div>
+    </DialogContent>
+  </Dialog>
+);
+
+export default KeyboardShortcutsDialog;
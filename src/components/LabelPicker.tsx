@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Separator } from '@/components/ui/separator';
+import { COLORS, getColor } from '@/lib/colors';
+import { TaskLabel } from '@/lib/labels';
+import { cn } from '@/lib/utils';
+import { Plus, Tag } from 'lucide-react';
+
+interface LabelPickerProps {
+  labels: TaskLabel[];
+  selectedIds: string[];
+  onToggle: (label: TaskLabel) => void;
+  onCreate: (name: string, color: string) => Promise<void>;
+}
+
+const LabelPicker: React.FC<LabelPickerProps> = ({ labels, selectedIds, onToggle, onCreate }) => {
+  const [newLabel, setNewLabel] = useState({ name: '', color: 'blue' });
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newLabel.name.trim()) return;
+
+    await onCreate(newLabel.name.trim(), newLabel.color);
+    setNewLabel({ name: '', color: newLabel.color });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button size="sm" variant="outline" className="w-full justify-start">
+          <Tag className="h-4 w-4 mr-2" />
+          Edit labels
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-3" align="start">
+        <div className="space-y-2 max-h-48 overflow-y-auto">
+          {labels.length === 0 && (
+            <p className="text-sm text-muted-foreground">No labels in this project yet</p>
+          )}
+          {labels.map((label) => (
+            <label key={label.id} className="flex items-center gap-2 text-sm cursor-pointer">
+              <Checkbox
+                checked={selectedIds.includes(label.id)}
+                onCheckedChange={() => onToggle(label)}
+              />
+              <span className={cn('h-3 w-3 rounded-full', getColor(label.color).swatch)} />
+              <span className="truncate">{label.name}</span>
+            </label>
+          ))}
+        </div>
+
+        <Separator className="my-3" />
+
+        <form onSubmit={handleCreate} className="space-y-2">
+          <Input
+            placeholder="New label"
+            value={newLabel.name}
+            onChange={(e) => setNewLabel({ ...newLabel, name: e.target.value })}
+            className="h-8"
+          />
+          <div className="flex items-center justify-between">
+            <div className="flex gap-1">
+              {Object.entries(COLORS).map(([key, color]) => (
+                <button
+                  key={key}
+                  type="button"
+                  title={color.label}
+                  className={cn(
+                    'h-5 w-5 rounded-full',
+                    color.swatch,
+                    newLabel.color === key && 'ring-2 ring-offset-1 ring-primary'
+                  )}
+                  onClick={() => setNewLabel({ ...newLabel, color: key })}
+                />
+              ))}
+            </div>
+            <Button type="submit" size="sm" className="h-7 w-7 p-0" disabled={!newLabel.name.trim()}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default LabelPicker;
@@ -0,0 +1,34 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeSanitize from 'rehype-sanitize';
+import { rehypeMentions } from '@/lib/mentions';
+import { cn } from '@/lib/utils';
+
+interface MarkdownProps {
+  content: string;
+  className?: string;
+  mentionNames?: string[];
+}
+
+// GitHub-flavoured Markdown; raw HTML is dropped and the output is sanitized
+const Markdown: React.FC<MarkdownProps> = ({ content, className, mentionNames = [] }) => (
+  <div
+    className={cn(
+      'prose prose-sm max-w-none break-words dark:prose-invert prose-pre:bg-muted prose-pre:text-foreground prose-p:my-1',
+      className
+    )}
+  >
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm]}
+      rehypePlugins={[rehypeSanitize, rehypeMentions(mentionNames)]}
+      components={{
+        a: ({ node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" />
+      }}
+    >
+      {content}
+    </ReactMarkdown>
+  </div>
+);
+
+export default Markdown;
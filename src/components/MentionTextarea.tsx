@@ -0,0 +1,106 @@
+import React, { useState, useRef } from 'react';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Textarea } from '@/components/ui/textarea';
+import { getMemberName, getMentionQuery, MentionableMember } from '@/lib/mentions';
+import { cn } from '@/lib/utils';
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  members: MentionableMember[];
+  placeholder?: string;
+  rows?: number;
+  className?: string;
+  autoFocus?: boolean;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+const MentionTextarea: React.FC<MentionTextareaProps> = ({ value, onChange, members, className, ...props }) => {
+  const [mention, setMention] = useState<{ query: string; start: number } | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const suggestions = mention
+    ? members
+        .filter(m => getMemberName(m)?.toLowerCase().includes(mention.query.toLowerCase()))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    onChange(e.target.value);
+    setMention(getMentionQuery(e.target.value, e.target.selectionStart));
+    setActiveIndex(0);
+  };
+
+  const insertMention = (member: MentionableMember) => {
+    const textarea = textareaRef.current;
+    if (!mention || !textarea) return;
+
+    const before = value.slice(0, mention.start);
+    const after = value.slice(textarea.selectionStart);
+    const inserted = `@${getMemberName(member)} `;
+
+    onChange(before + inserted + after);
+    setMention(null);
+
+    // Put the caret after the inserted name once React has re-rendered the value
+    const caret = before.length + inserted.length;
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(caret, caret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((activeIndex + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      insertMention(suggestions[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setMention(null);
+    }
+  };
+
+  return (
+    <div className={cn('relative', className)}>
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setMention(null)}
+        {...props}
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 top-full z-50 mt-1 w-64 rounded-md border bg-popover p-1 shadow-md">
+          {suggestions.map((member, index) => (
+            <button
+              key={member.user_id}
+              type="button"
+              className={cn(
+                'flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm',
+                index === activeIndex && 'bg-accent text-accent-foreground'
+              )}
+              // Keep focus in the textarea so onBlur doesn't close the list first
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => insertMention(member)}
+            >
+              <Avatar className="h-5 w-5">
+                <AvatarFallback className="text-xs">{getMemberName(member)?.[0]}</AvatarFallback>
+              </Avatar>
+              {getMemberName(member)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MentionTextarea;
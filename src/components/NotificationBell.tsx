@@ -0,0 +1,116 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useToast } from '@/hooks/use-toast';
+import { useNotifications } from '@/hooks/use-notifications';
+import { AppNotification, describeNotification, getNotificationLink } from '@/lib/notifications';
+import { cn } from '@/lib/utils';
+import { AtSign, Bell, Clock, MessageSquare, UserPlus } from 'lucide-react';
+
+const TYPE_ICONS = {
+  assignment: UserPlus,
+  mention: AtSign,
+  comment: MessageSquare,
+  due_soon: Clock
+};
+
+const NotificationBell: React.FC = () => {
+  const { notifications, unreadCount, markRead, markAllRead } = useNotifications();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const showError = (error: unknown) => {
+    toast({
+      title: 'Error',
+      description: (error as Error).message,
+      variant: 'destructive'
+    });
+  };
+
+  const handleOpen = (notification: AppNotification) => {
+    if (!notification.read_at) markRead(notification.id).catch(showError);
+
+    const link = getNotificationLink(notification);
+    if (link) {
+      navigate(link);
+    } else {
+      toast({
+        title: 'Error',
+        description: 'This task is no longer available',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="relative" aria-label="Notifications">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -right-1.5 -top-1.5 flex h-5 min-w-[1.25rem] items-center justify-center rounded-full bg-destructive px-1 text-xs text-destructive-foreground">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="end">
+        <div className="flex items-center justify-between border-b px-4 py-2">
+          <h4 className="font-medium">Notifications</h4>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7"
+            disabled={unreadCount === 0}
+            onClick={() => markAllRead().catch(showError)}
+          >
+            Mark all read
+          </Button>
+        </div>
+
+        {notifications.length === 0 ? (
+          <p className="px-4 py-8 text-center text-sm text-muted-foreground">You're all caught up</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => {
+              const Icon = TYPE_ICONS[notification.type] ?? Bell;
+
+              return (
+                <div
+                  key={notification.id}
+                  className={cn(
+                    'flex items-start gap-3 border-b px-4 py-3 last:border-b-0',
+                    !notification.read_at && 'bg-primary/5'
+                  )}
+                >
+                  <Icon className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                  <button
+                    type="button"
+                    className="flex-1 text-left text-sm hover:underline"
+                    onClick={() => handleOpen(notification)}
+                  >
+                    {describeNotification(notification)}
+                    <span className="block text-xs text-muted-foreground">
+                      {new Date(notification.created_at).toLocaleString()}
+                    </span>
+                  </button>
+                  {!notification.read_at && (
+                    <button
+                      type="button"
+                      className="mt-1 h-2 w-2 shrink-0 rounded-full bg-primary"
+                      title="Mark as read"
+                      onClick={() => markRead(notification.id).catch(showError)}
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,120 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { COLORS } from '@/lib/colors';
+import { TaskLabel } from '@/lib/labels';
+import { cn } from '@/lib/utils';
+import { Trash2 } from 'lucide-react';
+
+interface ProjectLabelsManagerProps {
+  projectId: string;
+}
+
+const ProjectLabelsManager: React.FC<ProjectLabelsManagerProps> = ({ projectId }) => {
+  const [labels, setLabels] = useState<TaskLabel[]>([]);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchLabels();
+  }, [projectId]);
+
+  const showError = (error: unknown) => {
+    toast({
+      title: 'Error',
+      description: (error as Error).message,
+      variant: 'destructive'
+    });
+  };
+
+  const fetchLabels = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('labels')
+        .select('id, name, color')
+        .eq('project_id', projectId)
+        .order('name');
+
+      if (error) throw error;
+      setLabels(data);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch labels',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const updateLabel = async (label: TaskLabel, changes: Partial<Pick<TaskLabel, 'name' | 'color'>>) => {
+    try {
+      const { error } = await supabase
+        .from('labels')
+        .update(changes)
+        .eq('id', label.id);
+
+      if (error) throw error;
+      setLabels(prev => prev.map(l => l.id === label.id ? { ...l, ...changes } : l));
+    } catch (error) {
+      showError(error);
+      fetchLabels();
+    }
+  };
+
+  const deleteLabel = async (label: TaskLabel) => {
+    try {
+      const { error } = await supabase
+        .from('labels')
+        .delete()
+        .eq('id', label.id);
+
+      if (error) throw error;
+      setLabels(prev => prev.filter(l => l.id !== label.id));
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  if (labels.length === 0) {
+    return <p className="text-sm text-muted-foreground">Labels created from a task appear here.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {labels.map((label) => (
+        <div key={label.id} className="flex items-center gap-2">
+          <Input
+            defaultValue={label.name}
+            className="h-9 flex-1"
+            onBlur={(e) => {
+              const name = e.target.value.trim();
+              if (name && name !== label.name) updateLabel(label, { name });
+            }}
+          />
+          <Select value={label.color} onValueChange={(color) => updateLabel(label, { color })}>
+            <SelectTrigger className="h-9 w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(COLORS).map(([key, color]) => (
+                <SelectItem key={key} value={key}>
+                  <span className="flex items-center gap-2">
+                    <span className={cn('h-3 w-3 rounded-full', color.swatch)} />
+                    {color.label}
+                  </span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="ghost" size="sm" onClick={() => deleteLabel(label)}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ProjectLabelsManager;
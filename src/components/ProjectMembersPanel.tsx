@@ -0,0 +1,381 @@
+import React, { useState, useEffect } from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Separator } from '@/components/ui/separator';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useProjectPermissions } from '@/hooks/use-project-permissions';
+import { ProjectRole } from '@/lib/permissions';
+import { Copy, Mail, RefreshCw, UserMinus, X } from 'lucide-react';
+
+interface Member {
+  user_id: string;
+  role: ProjectRole;
+  profiles: { display_name: string | null };
+}
+
+interface Invitation {
+  id: string;
+  email: string;
+  role: ProjectRole;
+  token: string;
+  expires_at: string;
+}
+
+interface ProjectMembersPanelProps {
+  projectId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const INVITATION_LIFETIME_DAYS = 7;
+
+const getInviteLink = (token: string) => `${window.location.origin}/invite/${token}`;
+
+const ProjectMembersPanel: React.FC<ProjectMembersPanelProps> = ({ projectId, isOpen, onClose }) => {
+  const [members, setMembers] = useState<Member[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [inviteForm, setInviteForm] = useState<{ email: string; role: ProjectRole }>({ email: '', role: 'member' });
+  const [isSending, setIsSending] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { canManageMembers } = useProjectPermissions(projectId);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchMembers();
+    }
+  }, [isOpen, projectId]);
+
+  useEffect(() => {
+    if (isOpen && canManageMembers) {
+      fetchInvitations();
+    }
+  }, [isOpen, canManageMembers]);
+
+  const showError = (error: unknown) => {
+    toast({
+      title: 'Error',
+      description: (error as Error).message,
+      variant: 'destructive'
+    });
+  };
+
+  const fetchMembers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('project_members')
+        .select(`
+          user_id,
+          role,
+          profiles!fk_project_members_user_id(display_name)
+        `)
+        .eq('project_id', projectId)
+        .order('joined_at');
+
+      if (error) throw error;
+      setMembers(data || []);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch project members',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const fetchInvitations = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('project_invitations')
+        .select('id, email, role, token, expires_at')
+        .eq('project_id', projectId)
+        .is('accepted_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setInvitations(data || []);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch invitations',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleChangeRole = async (member: Member, role: ProjectRole) => {
+    try {
+      const { error } = await supabase
+        .from('project_members')
+        .update({ role })
+        .eq('project_id', projectId)
+        .eq('user_id', member.user_id);
+
+      if (error) throw error;
+
+      setMembers(prev => prev.map(m => m.user_id === member.user_id ? { ...m, role } : m));
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleRemoveMember = async (member: Member) => {
+    try {
+      const { error } = await supabase
+        .from('project_members')
+        .delete()
+        .eq('project_id', projectId)
+        .eq('user_id', member.user_id);
+
+      if (error) throw error;
+
+      setMembers(prev => prev.filter(m => m.user_id !== member.user_id));
+      toast({
+        title: 'Success',
+        description: `${member.profiles?.display_name || 'Member'} removed from the project`
+      });
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  // The link can still be copied and shared by hand if the email doesn't go out
+  const emailInvitation = async (invitation: { id: string; email: string }) => {
+    const { error } = await supabase.functions.invoke('send-invitation-email', {
+      body: { invitationId: invitation.id }
+    });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: `Couldn't email ${invitation.email}. Copy the invite link and send it yourself.`,
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    toast({
+      title: 'Success',
+      description: `Invitation sent to ${invitation.email}`
+    });
+  };
+
+  const copyInviteLink = async (token: string) => {
+    await navigator.clipboard.writeText(getInviteLink(token));
+    toast({
+      title: 'Invite link copied',
+      description: 'Send it to your teammate so they can join the project'
+    });
+  };
+
+  const handleSendInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const email = inviteForm.email.trim().toLowerCase();
+
+    setIsSending(true);
+    try {
+      const { data, error } = await supabase
+        .from('project_invitations')
+        .insert([
+          {
+            project_id: projectId,
+            email,
+            role: inviteForm.role,
+            invited_by: user!.id
+          }
+        ])
+        .select('id, email, role, token, expires_at')
+        .single();
+
+      if (error) {
+        if (error.code === '23505') throw new Error(`${email} already has a pending invitation`);
+        throw error;
+      }
+
+      setInvitations(prev => [data, ...prev]);
+      setInviteForm({ email: '', role: 'member' });
+      await emailInvitation(data);
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleResendInvite = async (invitation: Invitation) => {
+    try {
+      // Issue a fresh token so any previously shared link stops working
+      const expiresAt = new Date(Date.now() + INVITATION_LIFETIME_DAYS * 24 * 60 * 60 * 1000).toISOString();
+      const token = crypto.randomUUID().replace(/-/g, '') + crypto.randomUUID().replace(/-/g, '');
+
+      const { error } = await supabase
+        .from('project_invitations')
+        .update({ token, expires_at: expiresAt })
+        .eq('id', invitation.id);
+
+      if (error) throw error;
+
+      setInvitations(prev => prev.map(i => i.id === invitation.id ? { ...i, token, expires_at: expiresAt } : i));
+      await emailInvitation(invitation);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleRevokeInvite = async (invitation: Invitation) => {
+    try {
+      const { error } = await supabase
+        .from('project_invitations')
+        .delete()
+        .eq('id', invitation.id);
+
+      if (error) throw error;
+
+      setInvitations(prev => prev.filter(i => i.id !== invitation.id));
+      toast({
+        title: 'Success',
+        description: `Invitation for ${invitation.email} revoked`
+      });
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  return (
+    <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Members</SheetTitle>
+          <SheetDescription>People who can see and work on this project</SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-6 mt-6">
+          <div className="space-y-3">
+            {members.map((member) => (
+              <div key={member.user_id} className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Avatar className="h-8 w-8">
+                    <AvatarFallback>{member.profiles?.display_name?.[0] || 'U'}</AvatarFallback>
+                  </Avatar>
+                  <span className="text-sm">
+                    {member.profiles?.display_name || 'Unknown User'}
+                    {member.user_id === user?.id && <span className="text-muted-foreground"> (you)</span>}
+                  </span>
+                </div>
+                {canManageMembers && member.role !== 'owner' && member.user_id !== user?.id ? (
+                  <div className="flex items-center gap-1">
+                    <Select
+                      value={member.role}
+                      onValueChange={(value: ProjectRole) => handleChangeRole(member, value)}
+                    >
+                      <SelectTrigger className="h-8 w-28">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="member">Member</SelectItem>
+                        <SelectItem value="admin">Admin</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button size="sm" variant="ghost" onClick={() => handleRemoveMember(member)}>
+                      <UserMinus className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ) : (
+                  <Badge variant="secondary" className="capitalize">{member.role}</Badge>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {canManageMembers && (
+            <>
+              <Separator />
+
+              <form onSubmit={handleSendInvite} className="space-y-3">
+                <h4 className="font-medium flex items-center gap-2">
+                  <Mail className="h-4 w-4" />
+                  Invite by email
+                </h4>
+                <div className="space-y-2">
+                  <Label htmlFor="invite-email">Email</Label>
+                  <Input
+                    id="invite-email"
+                    type="email"
+                    placeholder="teammate@example.com"
+                    value={inviteForm.email}
+                    onChange={(e) => setInviteForm({ ...inviteForm, email: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="invite-role">Role</Label>
+                  <Select
+                    value={inviteForm.role}
+                    onValueChange={(value: ProjectRole) => setInviteForm({ ...inviteForm, role: value })}
+                  >
+                    <SelectTrigger id="invite-role">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="member">Member</SelectItem>
+                      <SelectItem value="admin">Admin</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button type="submit" className="w-full" disabled={isSending}>
+                  Create Invite Link
+                </Button>
+              </form>
+
+              {invitations.length > 0 && (
+                <div className="space-y-3">
+                  <h4 className="font-medium">Pending invitations</h4>
+                  {invitations.map((invitation) => {
+                    const isExpired = new Date(invitation.expires_at) < new Date();
+                    return (
+                      <div key={invitation.id} className="flex items-center justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="text-sm truncate">{invitation.email}</p>
+                          <p className="text-xs text-muted-foreground">
+                            <span className="capitalize">{invitation.role}</span>
+                            {' · '}
+                            {isExpired
+                              ? 'Expired'
+                              : `Expires ${new Date(invitation.expires_at).toLocaleDateString()}`}
+                          </p>
+                        </div>
+                        <div className="flex shrink-0">
+                          {!isExpired && (
+                            <Button size="sm" variant="ghost" title="Copy invite link" onClick={() => copyInviteLink(invitation.token)}>
+                              <Copy className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button size="sm" variant="ghost" title="Resend invitation email" onClick={() => handleResendInvite(invitation)}>
+                            <RefreshCw className="h-4 w-4" />
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => handleRevokeInvite(invitation)}>
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ProjectMembersPanel;
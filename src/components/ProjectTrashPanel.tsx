@@ -0,0 +1,187 @@
+import React, { useState, useEffect } from 'react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useProjectPermissions } from '@/hooks/use-project-permissions';
+import { getPurgeDate, purgeTasks, setTasksDeleted, TRASH_RETENTION_DAYS } from '@/lib/trash';
+import { RotateCcw, Trash2 } from 'lucide-react';
+
+interface TrashedTask {
+  id: string;
+  title: string;
+  deleted_at: string;
+  parent_task_id: string | null;
+  board: { name: string };
+}
+
+interface ProjectTrashPanelProps {
+  projectId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onRestore: () => void;
+}
+
+const ProjectTrashPanel: React.FC<ProjectTrashPanelProps> = ({ projectId, isOpen, onClose, onRestore }) => {
+  const [tasks, setTasks] = useState<TrashedTask[]>([]);
+  const [pendingPurge, setPendingPurge] = useState<TrashedTask[] | null>(null);
+  const { toast } = useToast();
+  const { canDeleteTasks } = useProjectPermissions(projectId);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchTrash();
+    }
+  }, [isOpen, projectId]);
+
+  const showError = (error: unknown) => {
+    toast({
+      title: 'Error',
+      description: (error as Error).message,
+      variant: 'destructive'
+    });
+  };
+
+  const fetchTrash = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('id, title, deleted_at, parent_task_id, board:boards!inner(name, project_id)')
+        .eq('board.project_id', projectId)
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false });
+
+      if (error) throw error;
+      setTasks(data);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  // Subtasks trashed along with their parent are listed under it rather than on their own
+  const topLevelTasks = tasks.filter(task => !tasks.some(t => t.id === task.parent_task_id));
+  const getSubtasks = (task: TrashedTask) => tasks.filter(t => t.parent_task_id === task.id);
+
+  const handleRestore = async (task: TrashedTask) => {
+    try {
+      await setTasksDeleted([task.id], false);
+      toast({
+        title: 'Success',
+        description: `"${task.title}" restored`
+      });
+      await fetchTrash();
+      onRestore();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handlePurge = async () => {
+    if (!pendingPurge) return;
+
+    try {
+      const taskIds = pendingPurge.flatMap(task => [task.id, ...getSubtasks(task).map(t => t.id)]);
+      await purgeTasks(taskIds);
+      toast({
+        title: 'Success',
+        description: pendingPurge.length === 1 ? 'Task permanently deleted' : 'Trash emptied'
+      });
+      await fetchTrash();
+    } catch (error) {
+      showError(error);
+    } finally {
+      setPendingPurge(null);
+    }
+  };
+
+  return (
+    <>
+      <Sheet open={isOpen} onOpenChange={(open) => !open && onClose()}>
+        <SheetContent className="overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>Trash</SheetTitle>
+            <SheetDescription>
+              Deleted tasks are permanently removed after {TRASH_RETENTION_DAYS} days
+            </SheetDescription>
+          </SheetHeader>
+
+          {canDeleteTasks && topLevelTasks.length > 0 && (
+            <Button variant="outline" size="sm" className="mt-4" onClick={() => setPendingPurge(topLevelTasks)}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Empty trash
+            </Button>
+          )}
+
+          <div className="mt-4 space-y-2">
+            {topLevelTasks.length === 0 && (
+              <p className="text-sm text-muted-foreground">The trash is empty</p>
+            )}
+            {topLevelTasks.map((task) => {
+              const subtaskCount = getSubtasks(task).length;
+
+              return (
+                <div key={task.id} className="flex items-center gap-2 rounded-md border p-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{task.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {task.board?.name}
+                      {subtaskCount > 0 && ` · ${subtaskCount} subtask${subtaskCount === 1 ? '' : 's'}`}
+                      {' · '}deleted {new Date(task.deleted_at).toLocaleDateString()}, purged{' '}
+                      {getPurgeDate(task.deleted_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                  {canDeleteTasks && (
+                    <>
+                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Restore" onClick={() => handleRestore(task)}>
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        title="Delete permanently"
+                        onClick={() => setPendingPurge([task])}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </SheetContent>
+      </Sheet>
+
+      {/* Permanent Delete Confirmation */}
+      <AlertDialog open={!!pendingPurge} onOpenChange={(open) => !open && setPendingPurge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingPurge?.length === 1 ? 'Delete task permanently?' : 'Empty trash?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Comments, attachments and subtasks are removed too. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handlePurge}>Delete permanently</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default ProjectTrashPanel;
@@ -0,0 +1,268 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ATTACHMENTS_BUCKET,
+  Attachment,
+  MAX_ATTACHMENT_SIZE,
+  buildAttachmentPath,
+  formatFileSize,
+  isImageAttachment
+} from '@/lib/attachments';
+import { cn } from '@/lib/utils';
+import { Download, FileText, Paperclip, Trash2, Upload } from 'lucide-react';
+
+interface TaskAttachmentsProps {
+  projectId: string;
+  taskId: string;
+  canDeleteAny: boolean;
+  onChange: () => void;
+}
+
+const TaskAttachments: React.FC<TaskAttachmentsProps> = ({ projectId, taskId, canDeleteAny, onChange }) => {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [isDragging, setIsDragging] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setAttachments([]);
+    setThumbnails({});
+    fetchAttachments();
+  }, [taskId]);
+
+  const showError = (error: unknown) => {
+    toast({
+      title: 'Error',
+      description: (error as Error).message,
+      variant: 'destructive'
+    });
+  };
+
+  const fetchAttachments = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('attachments')
+        .select(`
+          id,
+          file_name,
+          file_path,
+          content_type,
+          size_bytes,
+          uploaded_by,
+          created_at,
+          profiles!fk_attachments_uploaded_by(display_name)
+        `)
+        .eq('task_id', taskId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setAttachments(data);
+      await fetchThumbnails(data);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch attachments',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  // The bucket is private, so previews use short-lived signed URLs
+  const fetchThumbnails = async (items: Attachment[]) => {
+    const images = items.filter(isImageAttachment);
+    if (images.length === 0) return;
+
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .createSignedUrls(images.map(i => i.file_path), 60 * 60);
+
+    if (error) throw error;
+    setThumbnails(Object.fromEntries(
+      data.filter(d => d.signedUrl).map(d => [d.path, d.signedUrl])
+    ));
+  };
+
+  const uploadFile = async (file: File) => {
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      throw new Error(`"${file.name}" is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`);
+    }
+
+    const path = buildAttachmentPath(projectId, taskId, file.name);
+    const { error: uploadError } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .upload(path, file, { contentType: file.type || undefined });
+
+    if (uploadError) throw uploadError;
+
+    const { error } = await supabase
+      .from('attachments')
+      .insert([
+        {
+          task_id: taskId,
+          uploaded_by: user!.id,
+          file_name: file.name,
+          file_path: path,
+          content_type: file.type || null,
+          size_bytes: file.size
+        }
+      ]);
+
+    if (error) {
+      // Don't leave an orphaned object behind when the row can't be saved
+      await supabase.storage.from(ATTACHMENTS_BUCKET).remove([path]);
+      throw error;
+    }
+  };
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    setIsUploading(true);
+    let uploaded = 0;
+
+    for (const file of Array.from(files)) {
+      try {
+        await uploadFile(file);
+        uploaded++;
+      } catch (error) {
+        showError(error);
+      }
+    }
+
+    setIsUploading(false);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+
+    if (uploaded > 0) {
+      toast({
+        title: 'Success',
+        description: `${uploaded} file${uploaded !== 1 ? 's' : ''} attached`
+      });
+      await fetchAttachments();
+      onChange();
+    }
+  };
+
+  const handleDownload = async (attachment: Attachment) => {
+    try {
+      const { data, error } = await supabase.storage
+        .from(ATTACHMENTS_BUCKET)
+        .createSignedUrl(attachment.file_path, 60, { download: attachment.file_name });
+
+      if (error) throw error;
+      window.open(data.signedUrl, '_blank');
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleDelete = async (attachment: Attachment) => {
+    try {
+      const { error } = await supabase
+        .from('attachments')
+        .delete()
+        .eq('id', attachment.id);
+
+      if (error) throw error;
+
+      const { error: storageError } = await supabase.storage
+        .from(ATTACHMENTS_BUCKET)
+        .remove([attachment.file_path]);
+
+      if (storageError) throw storageError;
+
+      setAttachments(prev => prev.filter(a => a.id !== attachment.id));
+      onChange();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFiles(e.dataTransfer.files);
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-lg font-semibold flex items-center gap-2">
+        <Paperclip className="h-5 w-5" />
+        Attachments ({attachments.length})
+      </h3>
+
+      <div
+        className={cn(
+          'flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-4 text-sm text-muted-foreground transition-colors',
+          isDragging && 'border-primary bg-primary/5'
+        )}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+      >
+        <Upload className="h-5 w-5" />
+        <span>{isUploading ? 'Uploading...' : 'Drop files here or'}</span>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          disabled={isUploading}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          Choose files
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={(e) => handleFiles(e.target.files)}
+        />
+      </div>
+
+      {attachments.length > 0 && (
+        <div className="space-y-2">
+          {attachments.map((attachment) => (
+            <div key={attachment.id} className="flex items-center gap-3 rounded-md border p-2">
+              {thumbnails[attachment.file_path] ? (
+                <img
+                  src={thumbnails[attachment.file_path]}
+                  alt={attachment.file_name}
+                  className="h-12 w-12 rounded object-cover"
+                />
+              ) : (
+                <div className="flex h-12 w-12 items-center justify-center rounded bg-muted">
+                  <FileText className="h-5 w-5 text-muted-foreground" />
+                </div>
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{attachment.file_name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {formatFileSize(attachment.size_bytes)} · {attachment.profiles?.display_name || 'Unknown User'} · {new Date(attachment.created_at).toLocaleDateString()}
+                </p>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => handleDownload(attachment)}>
+                <Download className="h-4 w-4" />
+              </Button>
+              {(canDeleteAny || attachment.uploaded_by === user?.id) && (
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(attachment)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaskAttachments;
@@ -0,0 +1,23 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { getColor } from '@/lib/colors';
+import { TaskLabel } from '@/lib/labels';
+import { getPriorityOption, TaskPriority } from '@/lib/priorities';
+import { cn } from '@/lib/utils';
+
+export const PriorityBadge: React.FC<{ priority: TaskPriority | null; className?: string }> = ({ priority, className }) => {
+  const option = getPriorityOption(priority);
+  if (!option) return null;
+
+  return (
+    <Badge variant="outline" className={cn('px-1.5 py-0 text-[10px] font-medium', option.className, className)}>
+      {option.label}
+    </Badge>
+  );
+};
+
+export const LabelBadge: React.FC<{ label: TaskLabel; className?: string }> = ({ label, className }) => (
+  <Badge variant="outline" className={cn('px-1.5 py-0 text-[10px] font-medium border-transparent', getColor(label.color).badge, className)}>
+    {label.name}
+  </Badge>
+);
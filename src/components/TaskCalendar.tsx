@@ -0,0 +1,224 @@
+import React, { createContext, useContext, useState } from 'react';
+import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
+import { DayProps, Row, RowProps } from 'react-day-picker';
+import {
+  addMonths,
+  addWeeks,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek
+} from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { getDueDateKey, toDueDate } from '@/lib/due';
+import { getPriorityOption, TaskPriority } from '@/lib/priorities';
+import { cn } from '@/lib/utils';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface CalendarTask {
+  id: string;
+  title: string;
+  column_id: string;
+  due_date: string | null;
+  priority: TaskPriority | null;
+}
+
+interface TaskCalendarProps {
+  tasks: CalendarTask[];
+  doneColumnIds: Set<string>;
+  onOpenTask: (taskId: string) => void;
+  onReschedule: (taskId: string, dueDate: string | null) => void;
+}
+
+type CalendarMode = 'month' | 'week';
+
+const UNSCHEDULED_ID = 'unscheduled';
+
+interface CalendarContextValue {
+  mode: CalendarMode;
+  weekStart: Date;
+  tasksByDay: Map<string, CalendarTask[]>;
+  doneColumnIds: Set<string>;
+  onOpenTask: (taskId: string) => void;
+}
+
+// DayPicker renders days through module-level components, so they read the tasks from context
+const CalendarContext = createContext<CalendarContextValue>(null);
+
+const CalendarTaskChip: React.FC<{ task: CalendarTask; index: number }> = ({ task, index }) => {
+  const { doneColumnIds, onOpenTask } = useContext(CalendarContext);
+
+  return (
+    <Draggable draggableId={task.id} index={index}>
+      {(provided) => (
+        <div
+          ref={provided.innerRef}
+          {...provided.draggableProps}
+          {...provided.dragHandleProps}
+          className={cn(
+            'mb-1 cursor-pointer truncate rounded border bg-card px-1.5 py-0.5 text-xs shadow-sm hover:shadow',
+            getPriorityOption(task.priority)?.className,
+            doneColumnIds.has(task.column_id) && 'line-through opacity-60'
+          )}
+          title={task.title}
+          onClick={() => onOpenTask(task.id)}
+        >
+          {task.title}
+        </div>
+      )}
+    </Draggable>
+  );
+};
+
+const CalendarDay = ({ date, displayMonth }: DayProps) => {
+  const { mode, tasksByDay } = useContext(CalendarContext);
+  const dayKey = format(date, 'yyyy-MM-dd');
+  const dayTasks = tasksByDay.get(dayKey) ?? [];
+
+  return (
+    <Droppable droppableId={dayKey}>
+      {(provided, snapshot) => (
+        <div
+          ref={provided.innerRef}
+          {...provided.droppableProps}
+          className={cn(
+            'h-full p-1',
+            mode === 'week' ? 'min-h-[24rem]' : 'min-h-[7rem]',
+            !isSameMonth(date, displayMonth) && 'bg-muted/40',
+            snapshot.isDraggingOver && 'bg-accent'
+          )}
+        >
+          <div
+            className={cn(
+              'mb-1 text-xs',
+              isToday(date) ? 'font-bold text-primary' : 'text-muted-foreground'
+            )}
+          >
+            {format(date, mode === 'week' ? 'EEE d' : 'd')}
+          </div>
+          {dayTasks.map((task, index) => (
+            <CalendarTaskChip key={task.id} task={task} index={index} />
+          ))}
+          {provided.placeholder}
+        </div>
+      )}
+    </Droppable>
+  );
+};
+
+// Week mode shows a single month view with every row but the focused week hidden
+const CalendarRow = (props: RowProps) => {
+  const { mode, weekStart } = useContext(CalendarContext);
+  if (mode === 'week' && !isSameDay(props.dates[0], weekStart)) return null;
+  return <Row {...props} />;
+};
+
+const TaskCalendar: React.FC<TaskCalendarProps> = ({ tasks, doneColumnIds, onOpenTask, onReschedule }) => {
+  const [mode, setMode] = useState<CalendarMode>('month');
+  const [focusDate, setFocusDate] = useState(() => new Date());
+
+  const weekStart = startOfWeek(focusDate);
+  const displayMonth = mode === 'week' ? startOfMonth(weekStart) : startOfMonth(focusDate);
+
+  const tasksByDay = new Map<string, CalendarTask[]>();
+  tasks.filter(task => task.due_date).forEach(task => {
+    const dayKey = getDueDateKey(task.due_date);
+    tasksByDay.set(dayKey, [...(tasksByDay.get(dayKey) ?? []), task]);
+  });
+  const unscheduledTasks = tasks.filter(task => !task.due_date);
+
+  const step = (direction: 1 | -1) => {
+    setFocusDate(mode === 'week' ? addWeeks(focusDate, direction) : addMonths(focusDate, direction));
+  };
+
+  const handleDragEnd = (result: DropResult) => {
+    const { source, destination, draggableId } = result;
+    if (!destination || destination.droppableId === source.droppableId) return;
+
+    onReschedule(
+      draggableId,
+      destination.droppableId === UNSCHEDULED_ID ? null : toDueDate(destination.droppableId)
+    );
+  };
+
+  const title = mode === 'week'
+    ? `${format(weekStart, 'MMM d')} – ${format(endOfWeek(focusDate), 'MMM d, yyyy')}`
+    : format(focusDate, 'MMMM yyyy');
+
+  return (
+    <CalendarContext.Provider value={{ mode, weekStart, tasksByDay, doneColumnIds, onOpenTask }}>
+      <DragDropContext onDragEnd={handleDragEnd}>
+        <div className="flex gap-6 pb-4">
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2 mb-4">
+              <Button variant="outline" size="sm" onClick={() => setFocusDate(new Date())}>
+                Today
+              </Button>
+              <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => step(-1)}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => step(1)}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <h2 className="text-lg font-semibold">{title}</h2>
+              <Tabs value={mode} onValueChange={(value) => setMode(value as CalendarMode)} className="ml-auto">
+                <TabsList>
+                  <TabsTrigger value="month">Month</TabsTrigger>
+                  <TabsTrigger value="week">Week</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </div>
+
+            <Calendar
+              month={displayMonth}
+              disableNavigation
+              className="p-0"
+              classNames={{
+                months: 'w-full',
+                month: 'w-full',
+                table: 'w-full table-fixed border-collapse',
+                head_row: '',
+                head_cell: 'pb-2 text-sm font-normal text-muted-foreground',
+                row: '',
+                cell: 'border p-0 align-top'
+              }}
+              components={{
+                Caption: () => null,
+                Day: CalendarDay,
+                Row: CalendarRow
+              }}
+            />
+          </div>
+
+          <div className="w-56 shrink-0">
+            <h3 className="font-semibold mb-2">No due date</h3>
+            <Droppable droppableId={UNSCHEDULED_ID}>
+              {(provided, snapshot) => (
+                <div
+                  ref={provided.innerRef}
+                  {...provided.droppableProps}
+                  className={cn('min-h-[200px] rounded-lg bg-muted/50 p-2', snapshot.isDraggingOver && 'bg-accent')}
+                >
+                  {unscheduledTasks.map((task, index) => (
+                    <CalendarTaskChip key={task.id} task={task} index={index} />
+                  ))}
+                  {provided.placeholder}
+                  {unscheduledTasks.length === 0 && (
+                    <p className="text-xs text-muted-foreground">Drop a task here to clear its due date</p>
+                  )}
+                </div>
+              )}
+            </Droppable>
+          </div>
+        </div>
+      </DragDropContext>
+    </CalendarContext.Provider>
+  );
+};
+
+export default TaskCalendar;
@@ -0,0 +1,109 @@
+import React from 'react';
+import { CardContent } from '@/components/ui/card';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Progress } from '@/components/ui/progress';
+import { LabelBadge, PriorityBadge } from '@/components/TaskBadges';
+import { TaskLabel } from '@/lib/labels';
+import { formatDueDate } from '@/lib/due';
+import { TaskPriority } from '@/lib/priorities';
+import { TaskProgress } from '@/lib/progress';
+import { Calendar, CheckSquare, CornerDownRight, MessageSquare, Paperclip } from 'lucide-react';
+
+interface TaskCardContentProps {
+  task: {
+    title: string;
+    description: string | null;
+    due_date: string | null;
+    priority: TaskPriority | null;
+    story_points: number | null;
+    assignees?: { user_id: string; profiles: { display_name: string | null } }[];
+    labels?: TaskLabel[];
+    comments_count?: number;
+    attachments_count?: number;
+  };
+  progress?: TaskProgress;
+  parentTitle?: string;
+  // Replaces the title while it is being edited in place
+  titleEditor?: React.ReactNode;
+}
+
+const TaskCardContent: React.FC<TaskCardContentProps> = ({ task, progress, parentTitle, titleEditor }) => (
+  <CardContent className="p-4">
+    {parentTitle && (
+      <div className="flex items-center gap-1 text-xs text-muted-foreground mb-1 truncate">
+        <CornerDownRight className="h-3 w-3 shrink-0" />
+        <span className="truncate">{parentTitle}</span>
+      </div>
+    )}
+
+    {(task.priority || (task.labels && task.labels.length > 0)) && (
+      <div className="flex flex-wrap gap-1 mb-2">
+        <PriorityBadge priority={task.priority} />
+        {task.labels?.map((label) => (
+          <LabelBadge key={label.id} label={label} />
+        ))}
+      </div>
+    )}
+
+    {titleEditor ?? <h4 className="font-medium mb-2 line-clamp-2">{task.title}</h4>}
+
+    {task.description && (
+      <p className="text-sm text-muted-foreground mb-3 line-clamp-2">
+        {task.description}
+      </p>
+    )}
+
+    {progress && progress.total > 0 && (
+      <div className="flex items-center gap-2 mb-3 text-xs text-muted-foreground">
+        <CheckSquare className="h-3 w-3 shrink-0" />
+        <Progress value={(progress.completed / progress.total) * 100} className="h-1.5 flex-1" />
+        <span>{progress.completed}/{progress.total}</span>
+      </div>
+    )}
+
+    <div className="flex items-center justify-between text-xs text-muted-foreground">
+      <div className="flex items-center gap-2">
+        {task.due_date && (
+          <div className="flex items-center gap-1">
+            <Calendar className="h-3 w-3" />
+            <span>{formatDueDate(task.due_date)}</span>
+          </div>
+        )}
+        {task.comments_count > 0 && (
+          <div className="flex items-center gap-1">
+            <MessageSquare className="h-3 w-3" />
+            <span>{task.comments_count}</span>
+          </div>
+        )}
+        {task.attachments_count > 0 && (
+          <div className="flex items-center gap-1">
+            <Paperclip className="h-3 w-3" />
+            <span>{task.attachments_count}</span>
+          </div>
+        )}
+        {task.story_points !== null && (
+          <span className="rounded bg-muted px-1.5 py-0.5 font-medium">{task.story_points} pts</span>
+        )}
+      </div>
+
+      {task.assignees && task.assignees.length > 0 && (
+        <div className="flex -space-x-1">
+          {task.assignees.slice(0, 3).map((assignee, idx) => (
+            <Avatar key={idx} className="h-6 w-6">
+              <AvatarFallback className="text-xs">
+                {assignee.profiles?.display_name?.[0] || 'U'}
+              </AvatarFallback>
+            </Avatar>
+          ))}
+          {task.assignees.length > 3 && (
+            <div className="h-6 w-6 rounded-full bg-muted flex items-center justify-center text-xs">
+              +{task.assignees.length - 3}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  </CardContent>
+);
+
+export default TaskCardContent;
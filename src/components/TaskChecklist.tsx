@@ -0,0 +1,229 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { nextPosition } from '@/lib/ordering';
+import { cn } from '@/lib/utils';
+import { ArrowDown, ArrowUp, CheckSquare, Plus, X } from 'lucide-react';
+
+interface ChecklistItem {
+  id: string;
+  content: string;
+  is_done: boolean;
+  position: number;
+}
+
+interface TaskChecklistProps {
+  taskId: string;
+  onChange: () => void;
+}
+
+const TaskChecklist: React.FC<TaskChecklistProps> = ({ taskId, onChange }) => {
+  const [items, setItems] = useState<ChecklistItem[]>([]);
+  const [newItem, setNewItem] = useState('');
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setItems([]);
+    fetchItems();
+  }, [taskId]);
+
+  const showError = (error: unknown) => {
+    toast({
+      title: 'Error',
+      description: (error as Error).message,
+      variant: 'destructive'
+    });
+  };
+
+  const fetchItems = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('task_checklist_items')
+        .select('id, content, is_done, position')
+        .eq('task_id', taskId)
+        .order('position');
+
+      if (error) throw error;
+      setItems(data);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch checklist',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleAddItem = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newItem.trim()) return;
+
+    try {
+      const { error } = await supabase
+        .from('task_checklist_items')
+        .insert([
+          {
+            task_id: taskId,
+            content: newItem.trim(),
+            position: nextPosition(items.map(i => i.position))
+          }
+        ]);
+
+      if (error) throw error;
+
+      setNewItem('');
+      await fetchItems();
+      onChange();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const updateItem = async (item: ChecklistItem, changes: Partial<Pick<ChecklistItem, 'content' | 'is_done'>>) => {
+    setItems(prev => prev.map(i => i.id === item.id ? { ...i, ...changes } : i));
+
+    try {
+      const { error } = await supabase
+        .from('task_checklist_items')
+        .update(changes)
+        .eq('id', item.id);
+
+      if (error) throw error;
+      onChange();
+    } catch (error) {
+      showError(error);
+      fetchItems();
+    }
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const item = items[index];
+    const neighbor = items[index + direction];
+    if (!neighbor) return;
+
+    try {
+      // Swap positions with the neighbouring item
+      const { error: firstError } = await supabase
+        .from('task_checklist_items')
+        .update({ position: neighbor.position })
+        .eq('id', item.id);
+
+      if (firstError) throw firstError;
+
+      const { error: secondError } = await supabase
+        .from('task_checklist_items')
+        .update({ position: item.position })
+        .eq('id', neighbor.id);
+
+      if (secondError) throw secondError;
+
+      await fetchItems();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleDeleteItem = async (item: ChecklistItem) => {
+    try {
+      const { error } = await supabase
+        .from('task_checklist_items')
+        .delete()
+        .eq('id', item.id);
+
+      if (error) throw error;
+
+      setItems(prev => prev.filter(i => i.id !== item.id));
+      onChange();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const completed = items.filter(i => i.is_done).length;
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-lg font-semibold flex items-center gap-2">
+        <CheckSquare className="h-5 w-5" />
+        Checklist
+        {items.length > 0 && (
+          <span className="text-sm font-normal text-muted-foreground">
+            {completed}/{items.length}
+          </span>
+        )}
+      </h3>
+
+      {items.length > 0 && (
+        <Progress value={(completed / items.length) * 100} className="h-2" />
+      )}
+
+      <div className="space-y-1">
+        {items.map((item, index) => (
+          <div key={item.id} className="group flex items-center gap-2">
+            <Checkbox
+              checked={item.is_done}
+              onCheckedChange={(checked) => updateItem(item, { is_done: checked === true })}
+            />
+            <Input
+              defaultValue={item.content}
+              className={cn(
+                'h-8 flex-1 border-transparent shadow-none hover:border-input focus:border-input',
+                item.is_done && 'line-through text-muted-foreground'
+              )}
+              onBlur={(e) => {
+                const content = e.target.value.trim();
+                if (content && content !== item.content) updateItem(item, { content });
+              }}
+            />
+            <div className="flex opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                disabled={index === 0}
+                onClick={() => handleMove(index, -1)}
+              >
+                <ArrowUp className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                disabled={index === items.length - 1}
+                onClick={() => handleMove(index, 1)}
+              >
+                <ArrowDown className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                onClick={() => handleDeleteItem(item)}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={handleAddItem} className="flex gap-2">
+        <Input
+          placeholder="Add an item..."
+          value={newItem}
+          onChange={(e) => setNewItem(e.target.value)}
+          className="h-8 flex-1"
+        />
+        <Button type="submit" size="sm" variant="outline" disabled={!newItem.trim()}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default TaskChecklist;
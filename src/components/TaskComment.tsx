@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import Markdown from '@/components/Markdown';
+import MentionTextarea from '@/components/MentionTextarea';
+import { getMemberName, MentionableMember, syncCommentMentions } from '@/lib/mentions';
+import { Pencil, Reply, Send, Trash2 } from 'lucide-react';
+
+export interface TaskCommentData {
+  id: string;
+  content: string;
+  created_at: string;
+  updated_at: string;
+  user_id: string;
+  parent_comment_id: string | null;
+  profiles: { display_name: string | null };
+}
+
+interface TaskCommentProps {
+  comment: TaskCommentData;
+  replies: TaskCommentData[];
+  members: MentionableMember[];
+  onReply: (parentCommentId: string, content: string) => Promise<boolean>;
+  onChange: () => void;
+}
+
+// updated_at is bumped by a trigger on every write, so allow for clock noise on insert
+const isEdited = (comment: TaskCommentData) =>
+  new Date(comment.updated_at).getTime() - new Date(comment.created_at).getTime() > 1000;
+
+const TaskComment: React.FC<TaskCommentProps> = ({ comment, replies, members, onReply, onChange }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editValue, setEditValue] = useState(comment.content);
+  const [isReplying, setIsReplying] = useState(false);
+  const [replyValue, setReplyValue] = useState('');
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const isOwn = comment.user_id === user?.id;
+  const isReply = comment.parent_comment_id !== null;
+
+  const showError = (error: unknown) => {
+    toast({
+      title: 'Error',
+      description: (error as Error).message,
+      variant: 'destructive'
+    });
+  };
+
+  const handleSaveEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editValue.trim()) return;
+
+    try {
+      const { error } = await supabase
+        .from('comments')
+        .update({ content: editValue.trim() })
+        .eq('id', comment.id);
+
+      if (error) throw error;
+
+      await syncCommentMentions(comment.id, editValue.trim(), members);
+      setIsEditing(false);
+      onChange();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      const { error } = await supabase
+        .from('comments')
+        .delete()
+        .eq('id', comment.id);
+
+      if (error) throw error;
+      onChange();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!replyValue.trim()) return;
+
+    if (await onReply(comment.id, replyValue.trim())) {
+      setReplyValue('');
+      setIsReplying(false);
+    }
+  };
+
+  const body = (
+    <div className="flex items-start gap-3">
+      <Avatar className={isReply ? 'h-6 w-6' : 'h-8 w-8'}>
+        <AvatarFallback className={isReply ? 'text-xs' : undefined}>
+          {comment.profiles?.display_name?.[0] || 'U'}
+        </AvatarFallback>
+      </Avatar>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2 mb-1">
+          <span className="font-medium text-sm">
+            {comment.profiles?.display_name || 'Unknown User'}
+          </span>
+          <span className="text-xs text-muted-foreground">
+            {new Date(comment.created_at).toLocaleString()}
+          </span>
+          {isEdited(comment) && (
+            <span
+              className="text-xs text-muted-foreground"
+              title={`Edited ${new Date(comment.updated_at).toLocaleString()}`}
+            >
+              (edited)
+            </span>
+          )}
+          <div className="ml-auto flex items-center">
+            {!isReply && (
+              <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setIsReplying(!isReplying)}>
+                <Reply className="h-3 w-3" />
+              </Button>
+            )}
+            {isOwn && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  onClick={() => {
+                    setEditValue(comment.content);
+                    setIsEditing(true);
+                  }}
+                >
+                  <Pencil className="h-3 w-3" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setIsDeleteOpen(true)}>
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+
+        {isEditing ? (
+          <form onSubmit={handleSaveEdit} className="space-y-2">
+            <MentionTextarea
+              rows={3}
+              value={editValue}
+              onChange={setEditValue}
+              members={members}
+            />
+            <div className="flex justify-end gap-2">
+              <Button type="button" size="sm" variant="ghost" onClick={() => setIsEditing(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" size="sm" disabled={!editValue.trim()}>
+                Save
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <Markdown content={comment.content} mentionNames={members.map(getMemberName).filter(Boolean)} />
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <>
+      {isReply ? body : (
+        <Card>
+          <CardContent className="p-4 space-y-3">
+            {body}
+
+            {replies.length > 0 && (
+              <div className="ml-11 space-y-3 border-l pl-4">
+                {replies.map((reply) => (
+                  <TaskComment
+                    key={reply.id}
+                    comment={reply}
+                    replies={[]}
+                    members={members}
+                    onReply={onReply}
+                    onChange={onChange}
+                  />
+                ))}
+              </div>
+            )}
+
+            {isReplying && (
+              <form onSubmit={handleReply} className="ml-11 flex gap-2">
+                <MentionTextarea
+                  rows={2}
+                  placeholder="Write a reply..."
+                  value={replyValue}
+                  onChange={setReplyValue}
+                  members={members}
+                  className="flex-1"
+                  autoFocus
+                />
+                <Button type="submit" size="sm" disabled={!replyValue.trim()}>
+                  <Send className="h-4 w-4" />
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Delete Comment Confirmation */}
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete comment?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {replies.length > 0
+                ? 'Replies to this comment will be kept as standalone comments.'
+                : 'This comment will be permanently removed.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default TaskComment;
@@ -0,0 +1,126 @@
+import React, { useState, useEffect } from 'react';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { describeActivity, TaskActivity } from '@/lib/activity';
+import Markdown from '@/components/Markdown';
+import { getMemberName, MentionableMember } from '@/lib/mentions';
+import { History, MessageSquare } from 'lucide-react';
+
+interface HistoryComment {
+  id: string;
+  content: string;
+  created_at: string;
+  parent_comment_id: string | null;
+  profiles: { display_name: string | null };
+}
+
+interface TaskHistoryProps {
+  taskId: string;
+  comments: HistoryComment[];
+  members: MentionableMember[];
+}
+
+type HistoryEntry =
+  | { kind: 'activity'; created_at: string; activity: TaskActivity }
+  | { kind: 'comment'; created_at: string; comment: HistoryComment };
+
+const TaskHistory: React.FC<TaskHistoryProps> = ({ taskId, comments, members }) => {
+  const [activity, setActivity] = useState<TaskActivity[]>([]);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchActivity();
+
+    const channel = supabase
+      .channel(`task-activity:${taskId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'task_activity', filter: `task_id=eq.${taskId}` },
+        () => fetchActivity()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [taskId]);
+
+  const fetchActivity = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('task_activity')
+        .select(`
+          id,
+          field,
+          old_value,
+          new_value,
+          created_at,
+          profiles!fk_task_activity_actor_id(display_name)
+        `)
+        .eq('task_id', taskId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setActivity(data || []);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch task history',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  // Comments and field changes share one timeline, newest last
+  const entries: HistoryEntry[] = [
+    ...activity.map(a => ({ kind: 'activity' as const, created_at: a.created_at, activity: a })),
+    ...comments.map(c => ({ kind: 'comment' as const, created_at: c.created_at, comment: c }))
+  ].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No history yet</p>;
+  }
+
+  return (
+    <ol className="space-y-3">
+      {entries.map((entry) => {
+        const actor = entry.kind === 'activity' ? entry.activity.profiles : entry.comment.profiles;
+        const name = actor?.display_name || 'Unknown User';
+
+        return (
+          <li key={`${entry.kind}-${entry.kind === 'activity' ? entry.activity.id : entry.comment.id}`} className="flex items-start gap-3">
+            <Avatar className="h-6 w-6">
+              <AvatarFallback className="text-xs">{name[0]}</AvatarFallback>
+            </Avatar>
+            <div className="flex-1 min-w-0 text-sm">
+              <div className="flex flex-wrap items-center gap-1">
+                {entry.kind === 'activity'
+                  ? <History className="h-3 w-3 text-muted-foreground" />
+                  : <MessageSquare className="h-3 w-3 text-muted-foreground" />}
+                <span className="font-medium">{name}</span>
+                <span className="text-muted-foreground">
+                  {entry.kind === 'activity'
+                    ? describeActivity(entry.activity)
+                    : entry.comment.parent_comment_id ? 'replied' : 'commented'}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {new Date(entry.created_at).toLocaleString()}
+                </span>
+              </div>
+              {entry.kind === 'comment' && (
+                <Markdown
+                  content={entry.comment.content}
+                  mentionNames={members.map(getMemberName).filter(Boolean)}
+                  className="mt-1 rounded-md bg-muted px-3 py-2"
+                />
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default TaskHistory;
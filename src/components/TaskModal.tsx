@@ -7,28 +7,49 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { Card, CardContent } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { Calendar, MessageSquare, User, Plus, Send, Trash2 } from 'lucide-react';
+import { CommandHistory } from '@/hooks/use-command-history';
+import { BoardColumn } from '@/lib/columns';
+import { TaskLabel } from '@/lib/labels';
+import { formatDueDate } from '@/lib/due';
+import { nextPosition } from '@/lib/ordering';
+import { PRIORITY_OPTIONS, TaskPriority } from '@/lib/priorities';
+import LabelPicker from '@/components/LabelPicker';
+import { LabelBadge } from '@/components/TaskBadges';
+import TaskChecklist from '@/components/TaskChecklist';
+import TaskSubtasks from '@/components/TaskSubtasks';
+import TaskHistory from '@/components/TaskHistory';
+import TaskAttachments from '@/components/TaskAttachments';
+import TaskComment, { TaskCommentData } from '@/components/TaskComment';
+import Markdown from '@/components/Markdown';
+import MentionTextarea from '@/components/MentionTextarea';
+import TaskTransferDialog from '@/components/TaskTransferDialog';
+import { syncCommentMentions } from '@/lib/mentions';
+import { TaskTransferResult, TransferMode } from '@/lib/transfer';
+import { setTasksArchived } from '@/lib/trash';
+import { assignmentCommand, TaskChanges, taskUpdateCommand } from '@/lib/history';
+import { Archive, ArchiveRestore, ArrowRight, Calendar, Copy, CornerDownRight, History, MessageSquare, MoreHorizontal, User, Plus, Send, Tag, Trash2 } from 'lucide-react';
 
 interface Task {
   id: string;
   title: string;
   description: string | null;
-  status: 'todo' | 'in_progress' | 'review' | 'done';
+  board_id: string;
+  column_id: string;
+  position: number;
+  parent_task_id: string | null;
   due_date: string | null;
+  priority: TaskPriority | null;
+  story_points: number | null;
   created_at: string;
+  archived_at: string | null;
   assignees?: { user_id: string; profiles: { display_name: string | null } }[];
-}
-
-interface Comment {
-  id: string;
-  content: string;
-  created_at: string;
-  profiles: { display_name: string | null };
+  labels?: TaskLabel[];
 }
 
 interface ProjectMember {
@@ -42,31 +63,79 @@ interface TaskModalProps {
   onClose: () => void;
   onTaskUpdate: () => void;
   projectId: string;
+  columns: BoardColumn[];
+  labels: TaskLabel[];
+  onLabelsUpdate: () => void;
+  canDeleteTask: boolean;
+  parentTask: { id: string; title: string } | null;
+  subtasks: { id: string; title: string; column_id: string }[];
+  onOpenTask: (taskId: string) => void;
+  history: CommandHistory;
 }
 
-const STATUS_OPTIONS = [
-  { value: 'todo', label: 'To Do' },
-  { value: 'in_progress', label: 'In Progress' },
-  { value: 'review', label: 'Review' },
-  { value: 'done', label: 'Done' }
-];
-
-const TaskModal: React.FC<TaskModalProps> = ({ task, isOpen, onClose, onTaskUpdate, projectId }) => {
+const EDITABLE_FIELDS = ['title', 'description', 'column_id', 'due_date', 'priority', 'story_points'] as const;
+
+const TaskModal: React.FC<TaskModalProps> = ({
+  task,
+  isOpen,
+  onClose,
+  onTaskUpdate,
+  projectId,
+  columns,
+  labels,
+  onLabelsUpdate,
+  canDeleteTask,
+  parentTask,
+  subtasks,
+  onOpenTask,
+  history
+}) => {
   const [editedTask, setEditedTask] = useState(task);
-  const [comments, setComments] = useState<Comment[]>([]);
+  const [comments, setComments] = useState<TaskCommentData[]>([]);
   const [newComment, setNewComment] = useState('');
   const [projectMembers, setProjectMembers] = useState<ProjectMember[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [isPreviewingDescription, setIsPreviewingDescription] = useState(false);
+  const [transferMode, setTransferMode] = useState<TransferMode | null>(null);
   const { user } = useAuth();
   const { toast } = useToast();
 
+  const showError = (error: unknown) => {
+    toast({
+      title: 'Error',
+      description: (error as Error).message,
+      variant: 'destructive'
+    });
+  };
+
   useEffect(() => {
     if (isOpen && task) {
       setEditedTask(task);
+      // Show the rendered description when a task with one is opened
+      setIsPreviewingDescription(!!task.description);
       fetchComments();
       fetchProjectMembers();
     }
-  }, [isOpen, task]);
+    // Reset only when a different task is opened so live updates don't discard edits
+  }, [isOpen, task.id]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    // Reload the comment list when teammates comment on this task
+    const channel = supabase
+      .channel(`task-comments:${task.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'comments', filter: `task_id=eq.${task.id}` },
+        () => fetchComments()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [isOpen, task.id]);
 
   const fetchComments = async () => {
     try {
@@ -76,7 +145,9 @@ const TaskModal: React.FC<TaskModalProps> = ({ task, isOpen, onClose, onTaskUpda
           id,
           content,
           created_at,
+          updated_at,
           user_id,
+          parent_comment_id,
           profiles!fk_comments_user_id(display_name)
         `)
         .eq('task_id', task.id)
@@ -117,22 +188,59 @@ const TaskModal: React.FC<TaskModalProps> = ({ task, isOpen, onClose, onTaskUpda
   const handleSaveTask = async () => {
     setIsLoading(true);
     try {
+      // A task moved to another column goes to the end of it, as with status changes elsewhere
+      let position = task.position;
+      if (editedTask.column_id !== task.column_id) {
+        const { data: lastTask, error: positionError } = await supabase
+          .from('tasks')
+          .select('position')
+          .eq('column_id', editedTask.column_id)
+          .order('position', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        if (positionError) throw positionError;
+        position = nextPosition(lastTask ? [lastTask.position] : []);
+      }
+
       const { error } = await supabase
         .from('tasks')
         .update({
           title: editedTask.title,
           description: editedTask.description,
-          status: editedTask.status,
-          due_date: editedTask.due_date
+          column_id: editedTask.column_id,
+          position,
+          due_date: editedTask.due_date,
+          priority: editedTask.priority,
+          story_points: editedTask.story_points
         })
         .eq('id', task.id);
 
       if (error) throw error;
 
-      toast({
-        title: 'Success',
-        description: 'Task updated successfully!'
-      });
+      // Only the fields that changed are reverted, so undo doesn't conflict with unrelated edits
+      const changedFields = EDITABLE_FIELDS.filter(field => editedTask[field] !== task[field]);
+      if (changedFields.length > 0) {
+        const before: TaskChanges = {};
+        const after: TaskChanges = {};
+        changedFields.forEach(field => {
+          Object.assign(before, { [field]: task[field] });
+          Object.assign(after, { [field]: editedTask[field] });
+        });
+        if (position !== task.position) {
+          before.position = task.position;
+          after.position = position;
+        }
+        const label = changedFields.length === 1 && changedFields[0] === 'column_id'
+          ? `Moved "${task.title}" to ${columns.find(c => c.id === editedTask.column_id)?.name}`
+          : `Updated "${editedTask.title}"`;
+        history.record(taskUpdateCommand(label, task.id, before, after));
+      } else {
+        toast({
+          title: 'Success',
+          description: 'Task updated successfully!'
+        });
+      }
 
       onTaskUpdate();
     } catch (error: any) {
@@ -146,37 +254,61 @@ const TaskModal: React.FC<TaskModalProps> = ({ task, isOpen, onClose, onTaskUpda
     }
   };
 
-  const handleAddComment = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!newComment.trim()) return;
-
+  // Resolves to true once the comment is saved, so the composer can be cleared
+  const addComment = async (content: string, parentCommentId: string | null = null) => {
+    let commentId: string;
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('comments')
         .insert([
           {
             task_id: task.id,
             user_id: user!.id,
-            content: newComment.trim()
+            content,
+            parent_comment_id: parentCommentId
           }
-        ]);
+        ])
+        .select('id')
+        .single();
 
       if (error) throw error;
+      commentId = data.id;
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+      return false;
+    }
+
+    try {
+      await syncCommentMentions(commentId, content, projectMembers);
 
-      setNewComment('');
-      await fetchComments();
-      
       toast({
         title: 'Success',
-        description: 'Comment added successfully!'
+        description: parentCommentId ? 'Reply added' : 'Comment added successfully!'
       });
-    } catch (error: any) {
+    } catch (error) {
+      // The comment itself is saved; posting it again would only duplicate it
       toast({
         title: 'Error',
-        description: error.message,
+        description: `${parentCommentId ? 'Reply' : 'Comment'} added, but mentioned members could not be notified: ${(error as Error).message}`,
         variant: 'destructive'
       });
     }
+
+    await fetchComments();
+    return true;
+  };
+
+  const handleAddComment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newComment.trim()) return;
+
+    if (await addComment(newComment.trim())) {
+      setNewComment('');
+    }
   };
 
   const handleAssignUser = async (userId: string) => {
@@ -208,10 +340,13 @@ const TaskModal: React.FC<TaskModalProps> = ({ task, isOpen, onClose, onTaskUpda
       }
 
       onTaskUpdate();
-      toast({
-        title: 'Success',
-        description: isAssigned ? 'User unassigned' : 'User assigned to task'
-      });
+      const name = projectMembers.find(m => m.user_id === userId)?.profiles?.display_name || 'Unknown User';
+      history.record(assignmentCommand(
+        isAssigned ? `Unassigned ${name} from "${task.title}"` : `Assigned ${name} to "${task.title}"`,
+        task.id,
+        userId,
+        !isAssigned
+      ));
     } catch (error: any) {
       toast({
         title: 'Error',
@@ -221,53 +356,185 @@ const TaskModal: React.FC<TaskModalProps> = ({ task, isOpen, onClose, onTaskUpda
     }
   };
 
-  const handleDeleteTask = async () => {
-    if (!confirm('Are you sure you want to delete this task?')) return;
+  const handleToggleLabel = async (label: TaskLabel) => {
+    try {
+      const hasLabel = task.labels?.some(l => l.id === label.id);
 
-    setIsLoading(true);
+      if (hasLabel) {
+        const { error } = await supabase
+          .from('task_labels')
+          .delete()
+          .eq('task_id', task.id)
+          .eq('label_id', label.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('task_labels')
+          .insert([
+            {
+              task_id: task.id,
+              label_id: label.id
+            }
+          ]);
+
+        if (error) throw error;
+      }
+
+      onTaskUpdate();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleCreateLabel = async (name: string, color: string) => {
     try {
-      const { error } = await supabase
-        .from('tasks')
-        .delete()
-        .eq('id', task.id);
+      const { data, error } = await supabase
+        .from('labels')
+        .insert([
+          {
+            project_id: projectId,
+            name,
+            color
+          }
+        ])
+        .select('id, name, color')
+        .single();
 
-      if (error) throw error;
+      if (error) {
+        if (error.code === '23505') throw new Error(`A label named "${name}" already exists`);
+        throw error;
+      }
 
+      onLabelsUpdate();
+      await handleToggleLabel(data);
+    } catch (error) {
       toast({
-        title: 'Success',
-        description: 'Task deleted successfully!'
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive'
       });
+    }
+  };
+
+  const handleDeleteTask = async () => {
+    setIsLoading(true);
+    try {
+      const command = taskUpdateCommand(
+        `Moved "${task.title}" to the trash`,
+        task.id,
+        { deleted_at: null },
+        { deleted_at: new Date().toISOString() }
+      );
+      await command.redo();
+      history.record(command);
 
       onTaskUpdate();
       onClose();
-    } catch (error: any) {
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleToggleArchived = async () => {
+    setIsLoading(true);
+    try {
+      await setTasksArchived([task.id], !task.archived_at);
       toast({
-        title: 'Error',
-        description: error.message,
-        variant: 'destructive'
+        title: 'Success',
+        description: task.archived_at ? 'Task moved back to the board' : 'Task archived'
       });
+      onTaskUpdate();
+    } catch (error) {
+      showError(error);
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleTransferred = (result: TaskTransferResult, boardId: string) => {
+    setTransferMode(null);
+    onTaskUpdate();
+
+    if (transferMode === 'move') {
+      onClose();
+    } else if (boardId === task.board_id) {
+      onOpenTask(result.task_id);
+    }
+  };
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
+          {parentTask && (
+            <button
+              type="button"
+              className="flex items-center gap-1 text-sm text-muted-foreground hover:underline w-fit"
+              onClick={() => onOpenTask(parentTask.id)}
+            >
+              <CornerDownRight className="h-4 w-4" />
+              Subtask of {parentTask.title}
+            </button>
+          )}
           <div className="flex justify-between items-start">
             <DialogTitle className="text-xl">{task.title}</DialogTitle>
-            <Button
-              variant="destructive"
-              size="sm"
-              onClick={handleDeleteTask}
-              disabled={isLoading}
-            >
-              <Trash2 className="h-4 w-4" />
-            </Button>
+            <div className="flex items-center gap-2">
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" aria-label="More actions">
+                    <MoreHorizontal className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => setTransferMode('move')}>
+                    <ArrowRight className="h-4 w-4 mr-2" />
+                    Move to...
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setTransferMode('duplicate')}>
+                    <Copy className="h-4 w-4 mr-2" />
+                    Duplicate to...
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handleToggleArchived} disabled={isLoading}>
+                    {task.archived_at ? (
+                      <ArchiveRestore className="h-4 w-4 mr-2" />
+                    ) : (
+                      <Archive className="h-4 w-4 mr-2" />
+                    )}
+                    {task.archived_at ? 'Unarchive' : 'Archive'}
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              {canDeleteTask && (
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={handleDeleteTask}
+                  disabled={isLoading}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
           </div>
         </DialogHeader>
 
+        {task.archived_at && (
+          <div className="flex items-center justify-between gap-4 rounded-md border bg-muted px-4 py-2 text-sm">
+            <span>This task was archived on {new Date(task.archived_at).toLocaleDateString()} and is hidden from the board.</span>
+            <Button variant="outline" size="sm" onClick={handleToggleArchived} disabled={isLoading}>
+              <ArchiveRestore className="h-4 w-4 mr-2" />
+              Unarchive
+            </Button>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Main Content */}
           <div className="lg:col-span-2 space-y-6">
@@ -282,30 +549,49 @@ const TaskModal: React.FC<TaskModalProps> = ({ task, isOpen, onClose, onTaskUpda
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="task-description">Description</Label>
-                <Textarea
-                  id="task-description"
-                  rows={4}
-                  value={editedTask.description || ''}
-                  onChange={(e) => setEditedTask({ ...editedTask, description: e.target.value })}
-                  placeholder="Add a description..."
-                />
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="task-description">Description</Label>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7"
+                    onClick={() => setIsPreviewingDescription(!isPreviewingDescription)}
+                  >
+                    {isPreviewingDescription ? 'Write' : 'Preview'}
+                  </Button>
+                </div>
+                {isPreviewingDescription ? (
+                  <div className="min-h-[98px] rounded-md border px-3 py-2">
+                    {editedTask.description
+                      ? <Markdown content={editedTask.description} />
+                      : <p className="text-sm text-muted-foreground">Nothing to preview</p>}
+                  </div>
+                ) : (
+                  <Textarea
+                    id="task-description"
+                    rows={4}
+                    value={editedTask.description || ''}
+                    onChange={(e) => setEditedTask({ ...editedTask, description: e.target.value })}
+                    placeholder="Add a description... (Markdown supported)"
+                  />
+                )}
               </div>
 
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="task-status">Status</Label>
                   <Select
-                    value={editedTask.status}
-                    onValueChange={(value: any) => setEditedTask({ ...editedTask, status: value })}
+                    value={editedTask.column_id}
+                    onValueChange={(value) => setEditedTask({ ...editedTask, column_id: value })}
                   >
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      {STATUS_OPTIONS.map((option) => (
-                        <SelectItem key={option.value} value={option.value}>
-                          {option.label}
+                      {columns.map((column) => (
+                        <SelectItem key={column.id} value={column.id}>
+                          {column.name}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -324,6 +610,45 @@ const TaskModal: React.FC<TaskModalProps> = ({ task, isOpen, onClose, onTaskUpda
                     })}
                   />
                 </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="task-priority">Priority</Label>
+                  <Select
+                    value={editedTask.priority ?? 'none'}
+                    onValueChange={(value) => setEditedTask({
+                      ...editedTask,
+                      priority: value === 'none' ? null : value as TaskPriority
+                    })}
+                  >
+                    <SelectTrigger id="task-priority">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No priority</SelectItem>
+                      {PRIORITY_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="task-story-points">Story Points</Label>
+                  <Input
+                    id="task-story-points"
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    placeholder="Estimate"
+                    value={editedTask.story_points ?? ''}
+                    onChange={(e) => setEditedTask({
+                      ...editedTask,
+                      story_points: e.target.value === '' ? null : Number(e.target.value)
+                    })}
+                  />
+                </div>
               </div>
 
               <Button onClick={handleSaveTask} disabled={isLoading} className="w-full">
@@ -333,52 +658,79 @@ const TaskModal: React.FC<TaskModalProps> = ({ task, isOpen, onClose, onTaskUpda
 
             <Separator />
 
-            {/* Comments Section */}
-            <div className="space-y-4">
-              <h3 className="text-lg font-semibold flex items-center gap-2">
-                <MessageSquare className="h-5 w-5" />
-                Comments ({comments.length})
-              </h3>
-
-              <form onSubmit={handleAddComment} className="flex gap-2">
-                <Input
-                  placeholder="Add a comment..."
-                  value={newComment}
-                  onChange={(e) => setNewComment(e.target.value)}
-                  className="flex-1"
+            <TaskChecklist taskId={task.id} onChange={onTaskUpdate} />
+
+            {/* Subtasks stay one level deep */}
+            {!task.parent_task_id && (
+              <>
+                <Separator />
+                <TaskSubtasks
+                  parentTaskId={task.id}
+                  subtasks={subtasks}
+                  columns={columns}
+                  onOpenTask={onOpenTask}
+                  onChange={onTaskUpdate}
                 />
-                <Button type="submit" size="sm" disabled={!newComment.trim()}>
-                  <Send className="h-4 w-4" />
-                </Button>
-              </form>
-
-              <div className="space-y-3">
-                {comments.map((comment) => (
-                  <Card key={comment.id}>
-                    <CardContent className="p-4">
-                      <div className="flex items-start gap-3">
-                        <Avatar className="h-8 w-8">
-                          <AvatarFallback>
-                            {comment.profiles?.display_name?.[0] || 'U'}
-                          </AvatarFallback>
-                        </Avatar>
-                        <div className="flex-1">
-                          <div className="flex items-center gap-2 mb-1">
-                            <span className="font-medium text-sm">
-                              {comment.profiles?.display_name || 'Unknown User'}
-                            </span>
-                            <span className="text-xs text-muted-foreground">
-                              {new Date(comment.created_at).toLocaleString()}
-                            </span>
-                          </div>
-                          <p className="text-sm">{comment.content}</p>
-                        </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
-              </div>
-            </div>
+              </>
+            )}
+
+            <Separator />
+
+            <TaskAttachments
+              projectId={projectId}
+              taskId={task.id}
+              canDeleteAny={canDeleteTask}
+              onChange={onTaskUpdate}
+            />
+
+            <Separator />
+
+            {/* Comments and History Section */}
+            <Tabs defaultValue="comments">
+              <TabsList>
+                <TabsTrigger value="comments" className="gap-2">
+                  <MessageSquare className="h-4 w-4" />
+                  Comments ({comments.length})
+                </TabsTrigger>
+                <TabsTrigger value="history" className="gap-2">
+                  <History className="h-4 w-4" />
+                  History
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="comments" className="space-y-4">
+                <form onSubmit={handleAddComment} className="flex gap-2">
+                  <MentionTextarea
+                    rows={2}
+                    placeholder="Add a comment... Use @ to mention someone"
+                    value={newComment}
+                    onChange={setNewComment}
+                    members={projectMembers}
+                    className="flex-1"
+                  />
+                  <Button type="submit" size="sm" disabled={!newComment.trim()}>
+                    <Send className="h-4 w-4" />
+                  </Button>
+                </form>
+
+                <div className="space-y-3">
+                  {comments.filter(c => !c.parent_comment_id).map((comment) => (
+                    <TaskComment
+                      key={comment.id}
+                      comment={comment}
+                      replies={comments.filter(c => c.parent_comment_id === comment.id)}
+                      members={projectMembers}
+                      onReply={(parentCommentId, content) => addComment(content, parentCommentId)}
+                      onChange={fetchComments}
+                    />
+                  ))}
+                </div>
+              </TabsContent>
+
+              <TabsContent value="history">
+                <TaskHistory taskId={task.id} comments={comments} members={projectMembers} />
+              </TabsContent>
+            </Tabs>
           </div>
 
           {/* Sidebar */}
@@ -445,6 +797,29 @@ const TaskModal: React.FC<TaskModalProps> = ({ task, isOpen, onClose, onTaskUpda
 
             <Separator />
 
+            {/* Labels */}
+            <div className="space-y-3">
+              <h4 className="font-medium flex items-center gap-2">
+                <Tag className="h-4 w-4" />
+                Labels
+              </h4>
+              {task.labels && task.labels.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {task.labels.map((label) => (
+                    <LabelBadge key={label.id} label={label} />
+                  ))}
+                </div>
+              )}
+              <LabelPicker
+                labels={labels}
+                selectedIds={task.labels?.map(l => l.id) ?? []}
+                onToggle={handleToggleLabel}
+                onCreate={handleCreateLabel}
+              />
+            </div>
+
+            <Separator />
+
             {/* Task Info */}
             <div className="space-y-3">
               <h4 className="font-medium">Task Info</h4>
@@ -456,19 +831,28 @@ const TaskModal: React.FC<TaskModalProps> = ({ task, isOpen, onClose, onTaskUpda
                 {task.due_date && (
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Due Date:</span>
-                    <span>{new Date(task.due_date).toLocaleDateString()}</span>
+                    <span>{formatDueDate(task.due_date)}</span>
                   </div>
                 )}
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Status:</span>
                   <Badge variant="secondary">
-                    {STATUS_OPTIONS.find(s => s.value === task.status)?.label}
+                    {columns.find(c => c.id === task.column_id)?.name}
                   </Badge>
                 </div>
               </div>
             </div>
           </div>
         </div>
+
+        {/* Move / Duplicate Dialog */}
+        <TaskTransferDialog
+          taskId={task.id}
+          mode={transferMode}
+          currentBoardId={task.board_id}
+          onClose={() => setTransferMode(null)}
+          onTransferred={handleTransferred}
+        />
       </DialogContent>
     </Dialog>
   );
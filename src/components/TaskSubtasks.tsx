@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { BoardColumn, findDoneColumn, findOpenColumn } from '@/lib/columns';
+import { nextPosition } from '@/lib/ordering';
+import { cn } from '@/lib/utils';
+import { ListTree, Plus } from 'lucide-react';
+
+interface Subtask {
+  id: string;
+  title: string;
+  column_id: string;
+}
+
+interface TaskSubtasksProps {
+  parentTaskId: string;
+  subtasks: Subtask[];
+  columns: BoardColumn[];
+  onOpenTask: (taskId: string) => void;
+  onChange: () => void;
+}
+
+const TaskSubtasks: React.FC<TaskSubtasksProps> = ({ parentTaskId, subtasks, columns, onOpenTask, onChange }) => {
+  const [newSubtask, setNewSubtask] = useState('');
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const doneColumn = findDoneColumn(columns);
+  const openColumn = findOpenColumn(columns);
+
+  const showError = (error: unknown) => {
+    toast({
+      title: 'Error',
+      description: (error as Error).message,
+      variant: 'destructive'
+    });
+  };
+
+  const isDone = (subtask: Subtask) => columns.find(c => c.id === subtask.column_id)?.is_done ?? false;
+
+  const handleAddSubtask = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newSubtask.trim() || !openColumn) return;
+
+    try {
+      // New subtasks go to the bottom of the board's first open column
+      const { data: lastTask, error: positionError } = await supabase
+        .from('tasks')
+        .select('position')
+        .eq('column_id', openColumn.id)
+        .order('position', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (positionError) throw positionError;
+
+      const { error } = await supabase
+        .from('tasks')
+        .insert([
+          {
+            board_id: openColumn.board_id,
+            column_id: openColumn.id,
+            parent_task_id: parentTaskId,
+            title: newSubtask.trim(),
+            position: nextPosition(lastTask ? [lastTask.position] : []),
+            created_by: user!.id
+          }
+        ]);
+
+      if (error) throw error;
+
+      setNewSubtask('');
+      onChange();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleToggle = async (subtask: Subtask, done: boolean) => {
+    const target = done ? doneColumn : openColumn;
+    if (!target) return;
+
+    try {
+      // Appends the subtask to the end of its new column
+      const { error } = await supabase.rpc('move_tasks_to_column', {
+        p_task_ids: [subtask.id],
+        p_column_id: target.id
+      });
+
+      if (error) throw error;
+      onChange();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const completed = subtasks.filter(isDone).length;
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-lg font-semibold flex items-center gap-2">
+        <ListTree className="h-5 w-5" />
+        Subtasks
+        {subtasks.length > 0 && (
+          <span className="text-sm font-normal text-muted-foreground">
+            {completed}/{subtasks.length}
+          </span>
+        )}
+      </h3>
+
+      <div className="space-y-1">
+        {subtasks.map((subtask) => (
+          <div key={subtask.id} className="flex items-center gap-2">
+            <Checkbox
+              checked={isDone(subtask)}
+              disabled={!doneColumn}
+              title={doneColumn ? undefined : 'Mark a column as "Counts as done" to complete subtasks'}
+              onCheckedChange={(checked) => handleToggle(subtask, checked === true)}
+            />
+            <button
+              type="button"
+              className={cn(
+                'flex-1 truncate text-left text-sm hover:underline',
+                isDone(subtask) && 'line-through text-muted-foreground'
+              )}
+              onClick={() => onOpenTask(subtask.id)}
+            >
+              {subtask.title}
+            </button>
+            <Badge variant="secondary" className="shrink-0">
+              {columns.find(c => c.id === subtask.column_id)?.name}
+            </Badge>
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={handleAddSubtask} className="flex gap-2">
+        <Input
+          placeholder="Add a subtask..."
+          value={newSubtask}
+          onChange={(e) => setNewSubtask(e.target.value)}
+          className="h-8 flex-1"
+        />
+        <Button type="submit" size="sm" variant="outline" disabled={!newSubtask.trim() || !openColumn}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default TaskSubtasks;
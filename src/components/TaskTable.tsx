@@ -0,0 +1,350 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from '@/components/ui/pagination';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BoardColumn } from '@/lib/columns';
+import { getDueBucket, getDueDateKey, toDueDate } from '@/lib/due';
+import { getPageItems } from '@/lib/pagination';
+import { cn } from '@/lib/utils';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+
+interface TableTask {
+  id: string;
+  title: string;
+  column_id: string;
+  position: number;
+  due_date: string | null;
+  created_at: string;
+  assignees?: { user_id: string; profiles: { display_name: string | null } }[];
+  comments_count?: number;
+}
+
+interface TaskTableProps {
+  tasks: TableTask[];
+  columns: BoardColumn[];
+  selectedIds: Set<string>;
+  onSelectedIdsChange: (ids: Set<string>) => void;
+  onOpenTask: (taskId: string) => void;
+  onStatusChange: (taskId: string, columnId: string) => void;
+  onReschedule: (taskId: string, dueDate: string | null) => void;
+}
+
+type SortKey = 'title' | 'status' | 'assignees' | 'due_date' | 'created_at' | 'comments';
+
+interface SortState {
+  key: SortKey;
+  direction: 'asc' | 'desc';
+}
+
+const PAGE_SIZE = 50;
+
+const SORTABLE_COLUMNS: { key: SortKey; label: string; className?: string }[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'status', label: 'Status', className: 'w-44' },
+  { key: 'assignees', label: 'Assignees', className: 'w-40' },
+  { key: 'due_date', label: 'Due date', className: 'w-44' },
+  { key: 'created_at', label: 'Created', className: 'w-32' },
+  { key: 'comments', label: 'Comments', className: 'w-28 text-right' }
+];
+
+const getAssigneeNames = (task: TableTask) =>
+  (task.assignees ?? []).map(a => a.profiles?.display_name || 'Unknown User').sort().join(', ');
+
+interface DueDateInputProps {
+  dueDate: string | null;
+  onSave: (dueDate: string | null) => void;
+}
+
+// Saves on blur or Enter: typing a date, or stepping through it with the arrow keys,
+// passes through values that shouldn't each be written. Escape discards.
+const DueDateInput: React.FC<DueDateInputProps> = ({ dueDate, onSave }) => {
+  const savedKey = dueDate ? getDueDateKey(dueDate) : '';
+  const [value, setValue] = useState(savedKey);
+
+  useEffect(() => {
+    setValue(savedKey);
+  }, [savedKey]);
+
+  const handleBlur = (e: React.FocusEvent<HTMLInputElement>) => {
+    // A half-typed date reads as empty, which would clear the due date
+    if (e.target.validity.badInput) {
+      setValue(savedKey);
+    } else if (value !== savedKey) {
+      onSave(value ? toDueDate(value) : null);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      e.currentTarget.blur();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setValue(savedKey);
+    }
+  };
+
+  return (
+    <Input
+      type="date"
+      aria-label="Due date"
+      className={cn('h-8', getDueBucket(dueDate) === 'overdue' && 'text-destructive')}
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={handleBlur}
+      onKeyDown={handleKeyDown}
+    />
+  );
+};
+
+const TaskTable: React.FC<TaskTableProps> = ({
+  tasks,
+  columns,
+  selectedIds,
+  onSelectedIdsChange,
+  onOpenTask,
+  onStatusChange,
+  onReschedule
+}) => {
+  const [sort, setSort] = useState<SortState>({ key: 'status', direction: 'asc' });
+  const [page, setPage] = useState(1);
+  const selectionAnchorRef = useRef<string | null>(null);
+
+  const columnRank = new Map(columns.map((column, index) => [column.id, index]));
+
+  const compare = (a: TableTask, b: TableTask) => {
+    switch (sort.key) {
+      case 'title':
+        return a.title.localeCompare(b.title);
+      case 'status':
+        return (columnRank.get(a.column_id) ?? 0) - (columnRank.get(b.column_id) ?? 0) || a.position - b.position;
+      case 'assignees':
+        return getAssigneeNames(a).localeCompare(getAssigneeNames(b));
+      case 'due_date':
+        return new Date(a.due_date).getTime() - new Date(b.due_date).getTime();
+      case 'created_at':
+        return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+      case 'comments':
+        return (a.comments_count || 0) - (b.comments_count || 0);
+    }
+  };
+
+  const sortedTasks = [...tasks].sort((a, b) => {
+    // Tasks without a due date stay at the bottom in either direction
+    if (sort.key === 'due_date' && (!a.due_date || !b.due_date)) {
+      return (a.due_date ? 0 : 1) - (b.due_date ? 0 : 1);
+    }
+    return sort.direction === 'asc' ? compare(a, b) : compare(b, a);
+  });
+
+  const pageCount = Math.max(Math.ceil(sortedTasks.length / PAGE_SIZE), 1);
+  const pageTasks = sortedTasks.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+
+  // Filters or deletions can shrink the list below the current page
+  useEffect(() => {
+    if (page > pageCount) setPage(pageCount);
+  }, [page, pageCount]);
+
+  const toggleSort = (key: SortKey) => {
+    setSort(current => current.key === key
+      ? { key, direction: current.direction === 'asc' ? 'desc' : 'asc' }
+      : { key, direction: 'asc' }
+    );
+    setPage(1);
+  };
+
+  const pageSelectedCount = pageTasks.filter(t => selectedIds.has(t.id)).length;
+
+  const togglePage = (checked: boolean) => {
+    const next = new Set(selectedIds);
+    pageTasks.forEach(t => checked ? next.add(t.id) : next.delete(t.id));
+    onSelectedIdsChange(next);
+  };
+
+  // Shift-click selects every row between the last toggled row and this one
+  const handleRowCheckboxClick = (e: React.MouseEvent, taskId: string) => {
+    const next = new Set(selectedIds);
+    const anchorIndex = pageTasks.findIndex(t => t.id === selectionAnchorRef.current);
+
+    if (e.shiftKey && anchorIndex !== -1) {
+      const taskIndex = pageTasks.findIndex(t => t.id === taskId);
+      pageTasks
+        .slice(Math.min(anchorIndex, taskIndex), Math.max(anchorIndex, taskIndex) + 1)
+        .forEach(t => next.add(t.id));
+    } else if (next.has(taskId)) {
+      next.delete(taskId);
+    } else {
+      next.add(taskId);
+    }
+
+    selectionAnchorRef.current = taskId;
+    onSelectedIdsChange(next);
+  };
+
+  const goToPage = (e: React.MouseEvent, target: number) => {
+    e.preventDefault();
+    setPage(Math.min(Math.max(target, 1), pageCount));
+  };
+
+  return (
+    <div className="pb-4">
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  aria-label="Select all on this page"
+                  checked={pageSelectedCount === 0 ? false : pageSelectedCount === pageTasks.length ? true : 'indeterminate'}
+                  onCheckedChange={(checked) => togglePage(checked === true)}
+                  disabled={pageTasks.length === 0}
+                />
+              </TableHead>
+              {SORTABLE_COLUMNS.map((column) => {
+                const SortIcon = sort.key !== column.key ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown;
+
+                return (
+                  <TableHead key={column.key} className={column.className}>
+                    <button
+                      type="button"
+                      className="inline-flex items-center gap-1 hover:text-foreground"
+                      onClick={() => toggleSort(column.key)}
+                    >
+                      {column.label}
+                      <SortIcon className={cn('h-3 w-3', sort.key !== column.key && 'opacity-40')} />
+                    </button>
+                  </TableHead>
+                );
+              })}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {pageTasks.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={SORTABLE_COLUMNS.length + 1} className="h-24 text-center text-muted-foreground">
+                  No tasks to show
+                </TableCell>
+              </TableRow>
+            ) : pageTasks.map((task) => (
+              <TableRow key={task.id} data-state={selectedIds.has(task.id) ? 'selected' : undefined}>
+                <TableCell>
+                  <Checkbox
+                    aria-label={`Select ${task.title}`}
+                    checked={selectedIds.has(task.id)}
+                    onClick={(e) => handleRowCheckboxClick(e, task.id)}
+                  />
+                </TableCell>
+                <TableCell>
+                  <button
+                    type="button"
+                    className="text-left font-medium hover:underline"
+                    onClick={() => onOpenTask(task.id)}
+                  >
+                    {task.title}
+                  </button>
+                </TableCell>
+                <TableCell>
+                  <Select value={task.column_id} onValueChange={(value) => onStatusChange(task.id, value)}>
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {columns.map((column) => (
+                        <SelectItem key={column.id} value={column.id}>
+                          {column.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  {task.assignees && task.assignees.length > 0 ? (
+                    <div className="flex -space-x-1" title={getAssigneeNames(task)}>
+                      {task.assignees.slice(0, 3).map((assignee) => (
+                        <Avatar key={assignee.user_id} className="h-6 w-6">
+                          <AvatarFallback className="text-xs">
+                            {assignee.profiles?.display_name?.[0] || 'U'}
+                          </AvatarFallback>
+                        </Avatar>
+                      ))}
+                      {task.assignees.length > 3 && (
+                        <div className="h-6 w-6 rounded-full bg-muted flex items-center justify-center text-xs">
+                          +{task.assignees.length - 3}
+                        </div>
+                      )}
+                    </div>
+                  ) : (
+                    <span className="text-muted-foreground">—</span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <DueDateInput dueDate={task.due_date} onSave={(dueDate) => onReschedule(task.id, dueDate)} />
+                </TableCell>
+                <TableCell className="text-muted-foreground">
+                  {new Date(task.created_at).toLocaleDateString()}
+                </TableCell>
+                <TableCell className="text-right text-muted-foreground">
+                  {task.comments_count || 0}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex items-center justify-between mt-4 text-sm text-muted-foreground">
+        <span>
+          {selectedIds.size > 0 && `${selectedIds.size} selected · `}
+          {sortedTasks.length === 0
+            ? '0 tasks'
+            : `${(page - 1) * PAGE_SIZE + 1}–${Math.min(page * PAGE_SIZE, sortedTasks.length)} of ${sortedTasks.length} tasks`}
+        </span>
+
+        {pageCount > 1 && (
+          <Pagination className="mx-0 w-auto">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href="#"
+                  className={cn(page === 1 && 'pointer-events-none opacity-50')}
+                  onClick={(e) => goToPage(e, page - 1)}
+                />
+              </PaginationItem>
+              {getPageItems(page, pageCount).map((item, index) => (
+                <PaginationItem key={item === 'ellipsis' ? `ellipsis-${index}` : item}>
+                  {item === 'ellipsis' ? (
+                    <PaginationEllipsis />
+                  ) : (
+                    <PaginationLink href="#" isActive={item === page} onClick={(e) => goToPage(e, item)}>
+                      {item}
+                    </PaginationLink>
+                  )}
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationNext
+                  href="#"
+                  className={cn(page === pageCount && 'pointer-events-none opacity-50')}
+                  onClick={(e) => goToPage(e, page + 1)}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TaskTable;
@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { TaskTransferResult, TransferMode, transferTask } from '@/lib/transfer';
+
+interface TransferProject {
+  id: string;
+  name: string;
+  boards: { id: string; name: string; position: number; archived_at: string | null }[];
+}
+
+interface TaskTransferDialogProps {
+  taskId: string;
+  mode: TransferMode | null;
+  currentBoardId: string;
+  onClose: () => void;
+  onTransferred: (result: TaskTransferResult, boardId: string) => void;
+}
+
+const TaskTransferDialog: React.FC<TaskTransferDialogProps> = ({ taskId, mode, currentBoardId, onClose, onTransferred }) => {
+  const [projects, setProjects] = useState<TransferProject[]>([]);
+  const [targetBoardId, setTargetBoardId] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!mode) return;
+    setTargetBoardId('');
+    fetchProjects();
+  }, [mode]);
+
+  // Projects are only visible to their members, so this lists every possible target
+  const fetchProjects = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('id, name, boards(id, name, position, archived_at)')
+        .is('archived_at', null)
+        .order('name');
+
+      if (error) throw error;
+      setProjects(data.map(project => ({
+        ...project,
+        boards: project.boards
+          .filter(b => !b.archived_at && (mode === 'duplicate' || b.id !== currentBoardId))
+          .sort((a, b) => a.position - b.position)
+      })).filter(project => project.boards.length > 0));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch projects',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!mode || !targetBoardId) return;
+
+    const target = projects
+      .flatMap(project => project.boards.map(board => ({ project, board })))
+      .find(({ board }) => board.id === targetBoardId);
+
+    setIsLoading(true);
+    try {
+      const result = await transferTask(mode, taskId, targetBoardId);
+
+      toast({
+        title: 'Success',
+        description: `Task ${mode === 'move' ? 'moved' : 'duplicated'} to ${target?.project.name} / ${target?.board.name}`
+      });
+
+      if (result.dropped_assignees.length > 0) {
+        toast({
+          title: 'Some assignees were removed',
+          description: `${result.dropped_assignees.join(', ')} ${result.dropped_assignees.length === 1 ? 'is' : 'are'} not a member of ${target?.project.name}`
+        });
+      }
+      if (result.failedAttachments > 0) {
+        toast({
+          title: 'Error',
+          description: `${result.failedAttachments} attachment file(s) could not be ${mode === 'move' ? 'moved' : 'copied'}`,
+          variant: 'destructive'
+        });
+      }
+
+      onTransferred(result, targetBoardId);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!mode} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{mode === 'move' ? 'Move task' : 'Duplicate task'}</DialogTitle>
+          <DialogDescription>
+            Comments, assignees and attachments come along. Assignees who aren't members of the
+            target project are left off.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Board</Label>
+            <Select value={targetBoardId} onValueChange={setTargetBoardId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a board" />
+              </SelectTrigger>
+              <SelectContent>
+                {projects.map((project) => (
+                  <SelectGroup key={project.id}>
+                    <SelectLabel>{project.name}</SelectLabel>
+                    {project.boards.map((board) => (
+                      <SelectItem key={board.id} value={board.id}>
+                        {board.name}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="submit" className="w-full" disabled={!targetBoardId || isLoading}>
+            {mode === 'move' ? 'Move' : 'Duplicate'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TaskTransferDialog;
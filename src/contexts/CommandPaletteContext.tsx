@@ -0,0 +1,67 @@
+import React, { createContext, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { LucideIcon } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import CommandPalette from '@/components/CommandPalette';
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  icon: LucideIcon;
+  onSelect: () => void;
+}
+
+interface CommandPaletteContextType {
+  setPageCommands: (commands: PaletteCommand[]) => void;
+}
+
+const CommandPaletteContext = createContext<CommandPaletteContextType | undefined>(undefined);
+
+// Adds commands that only make sense on the current page, like acting on the open task
+export const usePaletteCommands = (commands: PaletteCommand[]) => {
+  const context = useContext(CommandPaletteContext);
+  if (context === undefined) {
+    throw new Error('usePaletteCommands must be used within a CommandPaletteProvider');
+  }
+
+  useEffect(() => {
+    context.setPageCommands(commands);
+  });
+
+  useEffect(() => () => context.setPageCommands([]), [context]);
+};
+
+export const CommandPaletteProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // Read when the palette opens, so pages can update their commands without re-rendering it
+  const pageCommandsRef = useRef<PaletteCommand[]>([]);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsOpen(open => !open);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [user]);
+
+  const value = useMemo(() => ({
+    setPageCommands: (commands: PaletteCommand[]) => {
+      pageCommandsRef.current = commands;
+    }
+  }), []);
+
+  return (
+    <CommandPaletteContext.Provider value={value}>
+      {children}
+      {user && (
+        <CommandPalette open={isOpen} onOpenChange={setIsOpen} pageCommands={pageCommandsRef.current} />
+      )}
+    </CommandPaletteContext.Provider>
+  );
+};
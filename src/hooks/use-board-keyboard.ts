@@ -0,0 +1,141 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { BoardColumn } from '@/lib/columns';
+import { isInsideOverlay, isTypingTarget } from '@/lib/keyboard';
+
+interface BoardKeyboardOptions {
+  enabled: boolean;
+  columns: BoardColumn[];
+  // The visible cards of a column, in display order
+  getColumnTasks: (columnId: string) => { id: string }[];
+  onOpenTask: (taskId: string) => void;
+  onCreateTask: (columnId: string) => void;
+  onEditTitle: (taskId: string) => void;
+  onChangeStatus: (taskId: string, columnId: string) => void;
+  onShowHelp: () => void;
+}
+
+interface BoardFocus {
+  columnId: string;
+  taskId: string | null;
+}
+
+// Keyboard navigation for the kanban view. Focus is a card, or a column when it has no
+// cards; cards also receive DOM focus so the drag and drop keyboard controls apply to them.
+export const useBoardKeyboard = (options: BoardKeyboardOptions) => {
+  const [focus, setFocus] = useState<BoardFocus | null>(null);
+  const cardElementsRef = useRef(new Map<string, HTMLElement>());
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const focusRef = useRef(focus);
+  focusRef.current = focus;
+
+  const focusTask = useCallback((columnId: string, taskId: string | null) => {
+    setFocus({ columnId, taskId });
+    if (taskId) cardElementsRef.current.get(taskId)?.focus();
+  }, []);
+
+  // Ref callback for a card element
+  const registerCard = (taskId: string) => (element: HTMLElement | null) => {
+    if (!element) {
+      cardElementsRef.current.delete(taskId);
+      return;
+    }
+
+    cardElementsRef.current.set(taskId, element);
+    // A card moved to another column is a new element, so carry the focus over to it
+    if (focusRef.current?.taskId === taskId && document.activeElement === document.body) {
+      element.focus();
+    }
+  };
+
+  useEffect(() => {
+    // Resolve the focus against the current cards, since the focused task may have
+    // changed column or been filtered out since
+    const locate = () => {
+      const { columns, getColumnTasks } = optionsRef.current;
+      const current = focusRef.current;
+      if (!current) return null;
+
+      if (current.taskId) {
+        for (let columnIndex = 0; columnIndex < columns.length; columnIndex++) {
+          const taskIndex = getColumnTasks(columns[columnIndex].id).findIndex(t => t.id === current.taskId);
+          if (taskIndex !== -1) return { columnIndex, taskIndex };
+        }
+      }
+
+      const columnIndex = columns.findIndex(c => c.id === current.columnId);
+      return columnIndex === -1 ? null : { columnIndex, taskIndex: -1 };
+    };
+
+    const focusAt = (columnIndex: number, taskIndex: number) => {
+      const column = optionsRef.current.columns[columnIndex];
+      const tasks = optionsRef.current.getColumnTasks(column.id);
+      const task = tasks[Math.max(0, Math.min(taskIndex, tasks.length - 1))];
+      focusTask(column.id, task?.id ?? null);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const { enabled, columns, onOpenTask, onCreateTask, onEditTitle, onChangeStatus, onShowHelp } = optionsRef.current;
+      if (!enabled || e.defaultPrevented || e.metaKey || e.ctrlKey || e.altKey) return;
+      if (isTypingTarget(e.target) || isInsideOverlay(e.target) || columns.length === 0) return;
+
+      const position = locate();
+      const focusedTaskId = position && position.taskIndex !== -1 ? focusRef.current?.taskId ?? null : null;
+      const focusedColumnId = position ? columns[position.columnIndex].id : null;
+
+      switch (e.key) {
+        case 'ArrowDown':
+        case 'j':
+          if (position) focusAt(position.columnIndex, position.taskIndex + 1);
+          else focusAt(0, 0);
+          break;
+        case 'ArrowUp':
+        case 'k':
+          if (position) focusAt(position.columnIndex, position.taskIndex - 1);
+          else focusAt(0, 0);
+          break;
+        case 'ArrowLeft':
+        case 'h':
+          focusAt(position ? Math.max(position.columnIndex - 1, 0) : 0, position?.taskIndex ?? 0);
+          break;
+        case 'ArrowRight':
+        case 'l':
+          focusAt(position ? Math.min(position.columnIndex + 1, columns.length - 1) : 0, position?.taskIndex ?? 0);
+          break;
+        case 'Enter':
+          // Buttons and links keep their own Enter behaviour
+          if (!focusedTaskId || (e.target instanceof HTMLElement && e.target.closest('button, a'))) return;
+          onOpenTask(focusedTaskId);
+          break;
+        case 'c':
+          onCreateTask(focusedColumnId ?? columns[0].id);
+          break;
+        case 'e':
+          if (!focusedTaskId) return;
+          onEditTitle(focusedTaskId);
+          break;
+        case '?':
+          onShowHelp();
+          break;
+        default: {
+          // Number keys move the focused card to the column at that position
+          const target = /^[1-9]$/.test(e.key) ? columns[Number(e.key) - 1] : undefined;
+          if (!focusedTaskId || !target) return;
+          if (target.id !== focusedColumnId) onChangeStatus(focusedTaskId, target.id);
+        }
+      }
+
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [focusTask]);
+
+  return {
+    focusedTaskId: focus?.taskId ?? null,
+    focusedColumnId: focus?.columnId ?? null,
+    focusTask,
+    registerCard
+  };
+};
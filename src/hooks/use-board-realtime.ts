@@ -0,0 +1,47 @@
+import { useEffect, useRef } from 'react';
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+interface BoardRealtimeHandlers {
+  onTaskChange: (payload: RealtimePostgresChangesPayload<Tables<'tasks'>>) => void;
+  onAssignmentChange: (payload: RealtimePostgresChangesPayload<Tables<'task_assignments'>>) => void;
+  onCommentChange: (payload: RealtimePostgresChangesPayload<Tables<'comments'>>) => void;
+}
+
+// Subscribes to changes other users make on a board. Assignment and comment rows
+// carry no board_id, so handlers are expected to ignore tasks they don't know about.
+// The task filter matches the new row, so a task moved to another board elsewhere
+// only leaves this one on the next fetch.
+export const useBoardRealtime = (boardId: string | null, handlers: BoardRealtimeHandlers) => {
+  // Keep the latest handlers without resubscribing on every render
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!boardId) return;
+
+    const channel = supabase
+      .channel(`board:${boardId}`)
+      .on<Tables<'tasks'>>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'tasks', filter: `board_id=eq.${boardId}` },
+        (payload) => handlersRef.current.onTaskChange(payload)
+      )
+      .on<Tables<'task_assignments'>>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'task_assignments' },
+        (payload) => handlersRef.current.onAssignmentChange(payload)
+      )
+      .on<Tables<'comments'>>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'comments' },
+        (payload) => handlersRef.current.onCommentChange(payload)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [boardId]);
+};
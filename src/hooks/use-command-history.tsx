@@ -0,0 +1,102 @@
+import { useEffect, useRef } from 'react';
+import { ToastAction } from '@/components/ui/toast';
+import { useToast } from '@/hooks/use-toast';
+import { Command } from '@/lib/history';
+import { isTypingTarget } from '@/lib/keyboard';
+
+const HISTORY_LIMIT = 50;
+
+// Client-side undo/redo for board actions. Cmd/Ctrl+Z undoes and Cmd/Ctrl+Shift+Z redoes,
+// except while typing, where the browser's own text undo applies. `onChange` runs after
+// every replay so the caller can reload what changed.
+export const useCommandHistory = (onChange: () => void) => {
+  const undoStackRef = useRef<Command[]>([]);
+  const redoStackRef = useRef<Command[]>([]);
+  const isReplayingRef = useRef(false);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const { toast } = useToast();
+
+  const replay = async (command: Command, direction: 'undo' | 'redo') => {
+    if (isReplayingRef.current) return;
+    isReplayingRef.current = true;
+
+    try {
+      await command[direction]();
+      (direction === 'undo' ? redoStackRef : undoStackRef).current.push(command);
+      toast({
+        title: direction === 'undo' ? 'Undone' : 'Redone',
+        description: command.label
+      });
+    } catch (error) {
+      // A command that failed once would fail again, so it is dropped rather than kept around
+      toast({
+        title: direction === 'undo' ? "Couldn't undo" : "Couldn't redo",
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    } finally {
+      isReplayingRef.current = false;
+      onChangeRef.current();
+    }
+  };
+
+  // Undoes the latest command, or a specific one when triggered from its toast
+  const undo = (command?: Command) => {
+    const stack = undoStackRef.current;
+    const target = command ?? stack[stack.length - 1];
+    if (!target || !stack.includes(target)) return;
+
+    stack.splice(stack.indexOf(target), 1);
+    return replay(target, 'undo');
+  };
+
+  const redo = () => {
+    const target = redoStackRef.current.pop();
+    if (!target) return;
+    return replay(target, 'redo');
+  };
+
+  // Call after a mutation has been applied; announces it with an Undo action
+  const record = (command: Command) => {
+    undoStackRef.current = [...undoStackRef.current, command].slice(-HISTORY_LIMIT);
+    redoStackRef.current = [];
+    toast({
+      title: 'Success',
+      description: command.label,
+      action: (
+        <ToastAction altText="Undo" onClick={() => undo(command)}>
+          Undo
+        </ToastAction>
+      )
+    });
+  };
+
+  const clear = () => {
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+  };
+
+  const shortcutRef = useRef<(e: KeyboardEvent) => void>();
+  shortcutRef.current = (e: KeyboardEvent) => {
+    if (!(e.metaKey || e.ctrlKey) || e.altKey || e.key.toLowerCase() !== 'z') return;
+    if (isTypingTarget(e.target)) return;
+
+    e.preventDefault();
+    if (e.shiftKey) {
+      redo();
+    } else {
+      undo();
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => shortcutRef.current?.(e);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  return { record, undo, redo, clear };
+};
+
+export type CommandHistory = ReturnType<typeof useCommandHistory>;
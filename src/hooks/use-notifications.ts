@@ -0,0 +1,100 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { AppNotification } from '@/lib/notifications';
+
+const NOTIFICATION_LIMIT = 30;
+
+// Loads the signed-in user's latest notifications and keeps them live
+export const useNotifications = () => {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const { user } = useAuth();
+
+  const fetchNotifications = async () => {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select(`
+        id,
+        type,
+        read_at,
+        created_at,
+        task_id,
+        actor:profiles!fk_notifications_actor_id(display_name),
+        task:tasks(title, board_id, board:boards(project_id))
+      `)
+      .eq('user_id', user!.id)
+      .order('created_at', { ascending: false })
+      .limit(NOTIFICATION_LIMIT);
+
+    if (error) throw error;
+    setNotifications(data as AppNotification[]);
+
+    // Count separately so unread items beyond the loaded page are included
+    const { count, error: countError } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user!.id)
+      .is('read_at', null);
+
+    if (countError) throw countError;
+    setUnreadCount(count ?? 0);
+  };
+
+  useEffect(() => {
+    if (!user) {
+      setNotifications([]);
+      setUnreadCount(0);
+      return;
+    }
+
+    fetchNotifications().catch(() => setNotifications([]));
+
+    const channel = supabase
+      .channel(`notifications:${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.id}` },
+        () => fetchNotifications().catch(() => undefined)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  const markRead = async (id: string) => {
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(n => n.id === id ? { ...n, read_at: readAt } : n));
+    setUnreadCount(prev => Math.max(prev - 1, 0));
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .eq('id', id);
+
+    if (error) throw error;
+  };
+
+  const markAllRead = async () => {
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(n => n.read_at ? n : { ...n, read_at: readAt }));
+    setUnreadCount(0);
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .eq('user_id', user!.id)
+      .is('read_at', null);
+
+    if (error) throw error;
+  };
+
+  return {
+    notifications,
+    unreadCount,
+    markRead,
+    markAllRead
+  };
+};
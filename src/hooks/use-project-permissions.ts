@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { NO_PERMISSIONS, PERMISSION_MATRIX, ProjectPermissions, ProjectRole } from '@/lib/permissions';
+
+interface ProjectPermissionsState extends ProjectPermissions {
+  role: ProjectRole | null;
+  loading: boolean;
+}
+
+// Looks up the current user's role in a project. Controls should be hidden until
+// loading is false; the database enforces the same rules regardless.
+export const useProjectPermissions = (projectId: string | undefined): ProjectPermissionsState => {
+  const [role, setRole] = useState<ProjectRole | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!projectId || !user) {
+      setRole(null);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    supabase
+      .rpc('get_project_role', { p_project_id: projectId })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        setRole(error ? null : data);
+        setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, user]);
+
+  return {
+    role,
+    loading,
+    ...(role ? PERMISSION_MATRIX[role] : NO_PERMISSIONS)
+  };
+};
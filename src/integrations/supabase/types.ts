@@ -14,8 +14,98 @@ export type Database = {
   }
   public: {
     Tables: {
+      attachments: {
+        Row: {
+          content_type: string | null
+          created_at: string
+          file_name: string
+          file_path: string
+          id: string
+          size_bytes: number
+          task_id: string
+          uploaded_by: string
+        }
+        Insert: {
+          content_type?: string | null
+          created_at?: string
+          file_name: string
+          file_path: string
+          id?: string
+          size_bytes: number
+          task_id: string
+          uploaded_by: string
+        }
+        Update: {
+          content_type?: string | null
+          created_at?: string
+          file_name?: string
+          file_path?: string
+          id?: string
+          size_bytes?: number
+          task_id?: string
+          uploaded_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attachments_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_attachments_uploaded_by"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      board_columns: {
+        Row: {
+          board_id: string
+          color: string
+          created_at: string
+          id: string
+          is_done: boolean
+          name: string
+          position: number
+          updated_at: string
+        }
+        Insert: {
+          board_id: string
+          color?: string
+          created_at?: string
+          id?: string
+          is_done?: boolean
+          name: string
+          position?: number
+          updated_at?: string
+        }
+        Update: {
+          board_id?: string
+          color?: string
+          created_at?: string
+          id?: string
+          is_done?: boolean
+          name?: string
+          position?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "board_columns_board_id_fkey"
+            columns: ["board_id"]
+            isOneToOne: false
+            referencedRelation: "boards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       boards: {
         Row: {
+          archived_at: string | null
           created_at: string
           description: string | null
           id: string
@@ -25,6 +115,7 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          archived_at?: string | null
           created_at?: string
           description?: string | null
           id?: string
@@ -34,6 +125,7 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          archived_at?: string | null
           created_at?: string
           description?: string | null
           id?: string
@@ -52,11 +144,45 @@ export type Database = {
           },
         ]
       }
+      comment_mentions: {
+        Row: {
+          comment_id: string
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          comment_id: string
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          comment_id?: string
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comment_mentions_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fk_comment_mentions_user_id"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
       comments: {
         Row: {
           content: string
           created_at: string
           id: string
+          parent_comment_id: string | null
           task_id: string
           updated_at: string
           user_id: string
@@ -65,6 +191,7 @@ export type Database = {
           content: string
           created_at?: string
           id?: string
+          parent_comment_id?: string | null
           task_id: string
           updated_at?: string
           user_id: string
@@ -73,11 +200,19 @@ export type Database = {
           content?: string
           created_at?: string
           id?: string
+          parent_comment_id?: string | null
           task_id?: string
           updated_at?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "comments_parent_comment_id_fkey"
+            columns: ["parent_comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "comments_task_id_fkey"
             columns: ["task_id"]
@@ -94,6 +229,100 @@ export type Database = {
           },
         ]
       }
+      labels: {
+        Row: {
+          color: string
+          created_at: string
+          id: string
+          name: string
+          project_id: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          id?: string
+          name: string
+          project_id: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          id?: string
+          name?: string
+          project_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "labels_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          actor_id: string | null
+          comment_id: string | null
+          created_at: string
+          id: string
+          read_at: string | null
+          task_id: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          comment_id?: string | null
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          task_id: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          comment_id?: string | null
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          task_id?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_notifications_actor_id"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "fk_notifications_user_id"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "notifications_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -121,6 +350,57 @@ export type Database = {
         }
         Relationships: []
       }
+      project_invitations: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string
+          project_id: string
+          role: Database["public"]["Enums"]["project_role"]
+          token: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by: string
+          project_id: string
+          role?: Database["public"]["Enums"]["project_role"]
+          token?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string
+          project_id?: string
+          role?: Database["public"]["Enums"]["project_role"]
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_invitations_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "project_invitations_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       project_members: {
         Row: {
           id: string
@@ -162,6 +442,7 @@ export type Database = {
       }
       projects: {
         Row: {
+          archived_at: string | null
           created_at: string
           description: string | null
           id: string
@@ -170,6 +451,7 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          archived_at?: string | null
           created_at?: string
           description?: string | null
           id?: string
@@ -178,6 +460,7 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          archived_at?: string | null
           created_at?: string
           description?: string | null
           id?: string
@@ -187,6 +470,51 @@ export type Database = {
         }
         Relationships: []
       }
+      task_activity: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          field: string
+          id: string
+          new_value: string | null
+          old_value: string | null
+          task_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          field: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+          task_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          field?: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_task_activity_actor_id"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+          {
+            foreignKeyName: "task_activity_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       task_assignments: {
         Row: {
           assigned_at: string
@@ -223,40 +551,126 @@ export type Database = {
           },
         ]
       }
+      task_checklist_items: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          is_done: boolean
+          position: number
+          task_id: string
+          updated_at: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          id?: string
+          is_done?: boolean
+          position?: number
+          task_id: string
+          updated_at?: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          is_done?: boolean
+          position?: number
+          task_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_checklist_items_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_labels: {
+        Row: {
+          created_at: string
+          label_id: string
+          task_id: string
+        }
+        Insert: {
+          created_at?: string
+          label_id: string
+          task_id: string
+        }
+        Update: {
+          created_at?: string
+          label_id?: string
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_labels_label_id_fkey"
+            columns: ["label_id"]
+            isOneToOne: false
+            referencedRelation: "labels"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_labels_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tasks: {
         Row: {
+          archived_at: string | null
           board_id: string
+          column_id: string
           created_at: string
           created_by: string
+          deleted_at: string | null
           description: string | null
           due_date: string | null
           id: string
+          parent_task_id: string | null
           position: number
-          status: Database["public"]["Enums"]["task_status"]
+          priority: Database["public"]["Enums"]["task_priority"] | null
+          story_points: number | null
           title: string
           updated_at: string
         }
         Insert: {
+          archived_at?: string | null
           board_id: string
+          column_id: string
           created_at?: string
           created_by: string
+          deleted_at?: string | null
           description?: string | null
           due_date?: string | null
           id?: string
+          parent_task_id?: string | null
           position?: number
-          status?: Database["public"]["Enums"]["task_status"]
+          priority?: Database["public"]["Enums"]["task_priority"] | null
+          story_points?: number | null
           title: string
           updated_at?: string
         }
         Update: {
+          archived_at?: string | null
           board_id?: string
+          column_id?: string
           created_at?: string
           created_by?: string
+          deleted_at?: string | null
           description?: string | null
           due_date?: string | null
           id?: string
+          parent_task_id?: string | null
           position?: number
-          status?: Database["public"]["Enums"]["task_status"]
+          priority?: Database["public"]["Enums"]["task_priority"] | null
+          story_points?: number | null
           title?: string
           updated_at?: string
         }
@@ -275,6 +689,20 @@ export type Database = {
             referencedRelation: "boards"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "tasks_column_id_fkey"
+            columns: ["column_id"]
+            isOneToOne: false
+            referencedRelation: "board_columns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_parent_task_id_fkey"
+            columns: ["parent_task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
@@ -282,11 +710,110 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_project_invitation: {
+        Args: { p_token: string }
+        Returns: string
+      }
+      copy_attachment: {
+        Args: { p_attachment_id: string; p_task_id: string }
+        Returns: undefined
+      }
+      duplicate_task: {
+        Args: { p_board_id: string; p_task_id: string }
+        Returns: Json
+      }
+      get_attachment_project_id: {
+        Args: { p_object_name: string }
+        Returns: string
+      }
+      get_board_project_id: {
+        Args: { p_board_id: string }
+        Returns: string
+      }
+      get_comment_project_id: {
+        Args: { p_comment_id: string }
+        Returns: string
+      }
+      get_project_invitation: {
+        Args: { p_token: string }
+        Returns: {
+          accepted_at: string | null
+          email: string
+          expires_at: string
+          inviter_name: string | null
+          project_id: string
+          project_name: string
+          role: Database["public"]["Enums"]["project_role"]
+        }[]
+      }
+      get_project_role: {
+        Args: { p_project_id: string }
+        Returns: Database["public"]["Enums"]["project_role"]
+      }
+      get_task_transfer_target: {
+        Args: { p_board_id: string; p_task_id: string }
+        Returns: {
+          source_project_id: string
+          target_project_id: string
+          target_column_id: string
+        }[]
+      }
+      has_project_role: {
+        Args: {
+          p_project_id: string
+          p_roles: Database["public"]["Enums"]["project_role"][]
+        }
+        Returns: boolean
+      }
+      is_project_member: {
+        Args: { p_project_id: string }
+        Returns: boolean
+      }
+      log_task_activity: {
+        Args: {
+          p_task_id: string
+          p_field: string
+          p_old_value: string
+          p_new_value: string
+        }
+        Returns: undefined
+      }
+      move_task: {
+        Args: { p_board_id: string; p_task_id: string }
+        Returns: Json
+      }
+      move_tasks_to_board: {
+        Args: { p_board_id: string; p_task_ids: string[] }
+        Returns: number
+      }
+      move_tasks_to_column: {
+        Args: { p_column_id: string; p_task_ids: string[] }
+        Returns: number
+      }
+      notify_due_soon_tasks: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      purge_deleted_tasks: {
+        Args: { p_retention?: unknown }
+        Returns: number
+      }
+      relocate_attachment: {
+        Args: { p_attachment_id: string }
+        Returns: undefined
+      }
+      reorder_column_tasks: {
+        Args: { p_column_id: string; p_task_ids: string[] }
+        Returns: undefined
+      }
+      transfer_project_ownership: {
+        Args: { p_project_id: string; p_new_owner_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       project_role: "owner" | "admin" | "member"
-      task_status: "todo" | "in_progress" | "review" | "done"
+      task_priority: "urgent" | "high" | "medium" | "low"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -415,7 +942,7 @@ export const Constants = {
   public: {
     Enums: {
       project_role: ["owner", "admin", "member"],
-      task_status: ["todo", "in_progress", "review", "done"],
+      task_priority: ["urgent", "high", "medium", "low"],
     },
   },
 } as const
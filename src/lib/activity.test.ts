@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { describeActivity, TaskActivity } from '@/lib/activity';
+
+const activity = (field: string, old_value: string | null, new_value: string | null): TaskActivity => ({
+  id: 'activity',
+  field,
+  old_value,
+  new_value,
+  created_at: '2025-09-10T12:00:00+00:00',
+  profiles: null
+});
+
+describe('describeActivity', () => {
+  it('shows due date changes on the picked day', () => {
+    const day = (date: number) => new Date(2025, 8, date).toLocaleDateString();
+
+    expect(describeActivity(activity('due_date', null, '2025-09-10 00:00:00+00'))).toBe(`set the due date to ${day(10)}`);
+    expect(describeActivity(activity('due_date', '2025-09-10 00:00:00+00', '2025-09-12 00:00:00+00')))
+      .toBe(`changed the due date from ${day(10)} to ${day(12)}`);
+  });
+});
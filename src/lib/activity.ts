@@ -0,0 +1,46 @@
+import { formatDueDate } from '@/lib/due';
+import { getPriorityOption, TaskPriority } from '@/lib/priorities';
+
+export interface TaskActivity {
+  id: string;
+  field: string;
+  old_value: string | null;
+  new_value: string | null;
+  created_at: string;
+  profiles: { display_name: string | null } | null;
+}
+
+const formatPriority = (value: string) => getPriorityOption(value as TaskPriority)?.label ?? value;
+
+// Builds the sentence that follows the actor's name, e.g. "moved this from To Do to Done"
+export const describeActivity = ({ field, old_value, new_value }: TaskActivity): string => {
+  switch (field) {
+    case 'created':
+      return 'created this task';
+    case 'title':
+      return `renamed this from "${old_value}" to "${new_value}"`;
+    case 'description':
+      if (!old_value) return 'added a description';
+      if (!new_value) return 'removed the description';
+      return 'updated the description';
+    case 'status':
+      return `moved this from ${old_value ?? 'a deleted column'} to ${new_value ?? 'a deleted column'}`;
+    case 'due_date':
+      if (!new_value) return 'removed the due date';
+      if (!old_value) return `set the due date to ${formatDueDate(new_value)}`;
+      return `changed the due date from ${formatDueDate(old_value)} to ${formatDueDate(new_value)}`;
+    case 'priority':
+      if (!new_value) return 'removed the priority';
+      return `set the priority to ${formatPriority(new_value)}`;
+    case 'story_points':
+      if (!new_value) return 'removed the estimate';
+      return `estimated this at ${Number(new_value)} points`;
+    case 'assignee':
+      if (!old_value) return `assigned ${new_value || 'a former member'}`;
+      return `unassigned ${old_value || 'a former member'}`;
+    case 'comment':
+      return new_value === null ? 'deleted a comment' : 'edited a comment';
+    default:
+      return `changed ${field.replace(/_/g, ' ')}`;
+  }
+};
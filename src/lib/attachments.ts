@@ -0,0 +1,30 @@
+export const ATTACHMENTS_BUCKET = 'task-attachments';
+
+// Matches the bucket's file_size_limit
+export const MAX_ATTACHMENT_SIZE = 50 * 1024 * 1024;
+
+export interface Attachment {
+  id: string;
+  file_name: string;
+  file_path: string;
+  content_type: string | null;
+  size_bytes: number;
+  uploaded_by: string;
+  created_at: string;
+  profiles: { display_name: string | null } | null;
+}
+
+// Storage policies read the project id from the first folder of the path
+export const buildAttachmentPath = (projectId: string, taskId: string, fileName: string) => {
+  const safeName = fileName.replace(/[^\w.-]+/g, '_');
+  return `${projectId}/${taskId}/${crypto.randomUUID()}-${safeName}`;
+};
+
+export const isImageAttachment = (attachment: Pick<Attachment, 'content_type'>) =>
+  attachment.content_type?.startsWith('image/') ?? false;
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,14 @@
+// Tailwind needs the full class names to be present in source, so colors are
+// stored as keys in the database and mapped to classes here.
+export const COLORS: Record<string, { label: string; background: string; swatch: string; badge: string }> = {
+  slate: { label: 'Gray', background: 'bg-slate-100', swatch: 'bg-slate-400', badge: 'bg-slate-100 text-slate-800' },
+  blue: { label: 'Blue', background: 'bg-blue-100', swatch: 'bg-blue-400', badge: 'bg-blue-100 text-blue-800' },
+  yellow: { label: 'Yellow', background: 'bg-yellow-100', swatch: 'bg-yellow-400', badge: 'bg-yellow-100 text-yellow-800' },
+  green: { label: 'Green', background: 'bg-green-100', swatch: 'bg-green-400', badge: 'bg-green-100 text-green-800' },
+  red: { label: 'Red', background: 'bg-red-100', swatch: 'bg-red-400', badge: 'bg-red-100 text-red-800' },
+  orange: { label: 'Orange', background: 'bg-orange-100', swatch: 'bg-orange-400', badge: 'bg-orange-100 text-orange-800' },
+  purple: { label: 'Purple', background: 'bg-purple-100', swatch: 'bg-purple-400', badge: 'bg-purple-100 text-purple-800' },
+  pink: { label: 'Pink', background: 'bg-pink-100', swatch: 'bg-pink-400', badge: 'bg-pink-100 text-pink-800' }
+};
+
+export const getColor = (color: string) => COLORS[color] ?? COLORS.slate;
@@ -0,0 +1,13 @@
+export interface BoardColumn {
+  id: string;
+  board_id: string;
+  name: string;
+  color: string;
+  position: number;
+  is_done: boolean;
+}
+
+// Columns used when a subtask is ticked off or reopened from its parent
+export const findDoneColumn = (columns: BoardColumn[]) => columns.find(c => c.is_done) ?? null;
+
+export const findOpenColumn = (columns: BoardColumn[]) => columns.find(c => !c.is_done) ?? null;
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { formatDueDate, getDueBucket } from '@/lib/due';
+import { EMPTY_FILTERS, filterTasks } from '@/lib/filters';
+
+// Wednesday evening local time; the suite runs in America/New_York
+const now = new Date(2025, 8, 10, 20, 0);
+
+describe('getDueBucket', () => {
+  it('buckets by the picked day, not the local time of midnight UTC', () => {
+    expect(new Date('2025-09-10T00:00:00+00:00').getDate()).toBe(9);
+    expect(getDueBucket('2025-09-10T00:00:00+00:00', now)).toBe('today');
+    expect(getDueBucket('2025-09-09T00:00:00+00:00', now)).toBe('overdue');
+    expect(getDueBucket('2025-09-13T00:00:00+00:00', now)).toBe('week');
+    expect(getDueBucket('2025-09-14T00:00:00+00:00', now)).toBe('later');
+    expect(getDueBucket(null, now)).toBe('none');
+  });
+});
+
+describe('formatDueDate', () => {
+  it('shows the picked day', () => {
+    expect(formatDueDate('2025-09-10T00:00:00.000Z')).toBe(new Date(2025, 8, 10).toLocaleDateString());
+  });
+
+  it('reads the text form logged in task history', () => {
+    expect(formatDueDate('2025-09-10 00:00:00+00')).toBe(new Date(2025, 8, 10).toLocaleDateString());
+  });
+});
+
+describe('due filter', () => {
+  const task = (id: string, due_date: string) => ({
+    id,
+    title: id,
+    description: null,
+    priority: null,
+    created_by: 'user',
+    due_date
+  });
+  const tasks = [
+    task('yesterday', '2025-09-09T00:00:00+00:00'),
+    task('today', '2025-09-10T00:00:00+00:00'),
+    task('sunday', '2025-09-07T00:00:00+00:00'),
+    task('next-week', '2025-09-14T00:00:00+00:00')
+  ];
+
+  it('treats only earlier days as overdue', () => {
+    expect(filterTasks(tasks, { ...EMPTY_FILTERS, due: 'overdue' }, undefined, now).map(t => t.id)).toEqual(['yesterday', 'sunday']);
+  });
+
+  it('matches the current week from Sunday to Saturday', () => {
+    expect(filterTasks(tasks, { ...EMPTY_FILTERS, due: 'week' }, undefined, now).map(t => t.id)).toEqual(['yesterday', 'today', 'sunday']);
+  });
+});
@@ -0,0 +1,35 @@
+import { endOfWeek, format } from 'date-fns';
+
+export type DueBucket = 'overdue' | 'today' | 'week' | 'later' | 'none';
+
+export const DUE_BUCKETS: { value: DueBucket; label: string }[] = [
+  { value: 'overdue', label: 'Overdue' },
+  { value: 'today', label: 'Today' },
+  { value: 'week', label: 'This week' },
+  { value: 'later', label: 'Later' },
+  { value: 'none', label: 'No due date' }
+];
+
+// Due dates are saved as midnight UTC of the picked day (see TaskModal), so the
+// date part identifies the day regardless of the viewer's timezone. Task history
+// stores Postgres' text form, which separates the time with a space.
+export const getDueDateKey = (dueDate: string) => dueDate.split(/[ T]/)[0];
+
+// The viewer's calendar day in the same format, so keys compare as strings
+export const getDayKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Parsing the key without a timezone gives local midnight, so the picked day is shown everywhere
+export const formatDueDate = (dueDate: string) => new Date(`${getDueDateKey(dueDate)}T00:00`).toLocaleDateString();
+
+export const getDueBucket = (dueDate: string | null, now = new Date()): DueBucket => {
+  if (!dueDate) return 'none';
+
+  const due = getDueDateKey(dueDate);
+  const today = getDayKey(now);
+  if (due < today) return 'overdue';
+  if (due === today) return 'today';
+  if (due <= getDayKey(endOfWeek(now))) return 'week';
+  return 'later';
+};
+
+export const toDueDate = (dayKey: string) => new Date(dayKey).toISOString();
@@ -0,0 +1,107 @@
+import { endOfWeek, startOfWeek } from 'date-fns';
+import { getDayKey, getDueDateKey } from '@/lib/due';
+import { TaskLabel } from '@/lib/labels';
+import { TaskPriority } from '@/lib/priorities';
+
+// Special assignee values alongside plain user ids
+export const ASSIGNEE_ME = 'me';
+export const ASSIGNEE_NONE = 'unassigned';
+
+export type DueFilter = 'overdue' | 'week';
+
+export const DUE_OPTIONS: { value: DueFilter; label: string }[] = [
+  { value: 'overdue', label: 'Overdue' },
+  { value: 'week', label: 'Due this week' }
+];
+
+export interface BoardFilters {
+  priority: TaskPriority | null;
+  label: string | null;
+  assignee: string | null;
+  creator: string | null;
+  due: DueFilter | null;
+  q: string | null;
+}
+
+export const EMPTY_FILTERS: BoardFilters = {
+  priority: null,
+  label: null,
+  assignee: null,
+  creator: null,
+  due: null,
+  q: null
+};
+
+interface FilterableTask {
+  title: string;
+  description: string | null;
+  due_date: string | null;
+  created_by: string;
+  priority: TaskPriority | null;
+  labels?: TaskLabel[];
+  assignees?: { user_id: string }[];
+}
+
+// Filters live in the query string so filtered views can be shared
+export const readFilters = (params: URLSearchParams): BoardFilters => ({
+  priority: (params.get('priority') as TaskPriority) || null,
+  label: params.get('label'),
+  assignee: params.get('assignee'),
+  creator: params.get('creator'),
+  due: (params.get('due') as DueFilter) || null,
+  q: params.get('q')
+});
+
+export const writeFilters = (params: URLSearchParams, filters: BoardFilters) => {
+  const next = new URLSearchParams(params);
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+  });
+  return next;
+};
+
+export const hasActiveFilters = (filters: BoardFilters) => Object.values(filters).some(Boolean);
+
+const matchesAssignee = (task: FilterableTask, assignee: string, userId: string | undefined) => {
+  const assignees = task.assignees || [];
+  if (assignee === ASSIGNEE_NONE) return assignees.length === 0;
+
+  const target = assignee === ASSIGNEE_ME ? userId : assignee;
+  return assignees.some(a => a.user_id === target);
+};
+
+const matchesDue = (task: FilterableTask, due: DueFilter, now: Date) => {
+  if (!task.due_date) return false;
+
+  const dueDate = getDueDateKey(task.due_date);
+  if (due === 'overdue') return dueDate < getDayKey(now);
+  return dueDate >= getDayKey(startOfWeek(now)) && dueDate <= getDayKey(endOfWeek(now));
+};
+
+const matchesText = (task: FilterableTask, q: string) => {
+  const needle = q.trim().toLowerCase();
+  if (!needle) return true;
+
+  return task.title.toLowerCase().includes(needle)
+    || (task.description || '').toLowerCase().includes(needle);
+};
+
+export const filterTasks = <T extends FilterableTask>(
+  tasks: T[],
+  filters: BoardFilters,
+  userId?: string,
+  now = new Date()
+): T[] =>
+  tasks.filter(task => {
+    if (filters.priority && task.priority !== filters.priority) return false;
+    if (filters.label && !task.labels?.some(l => l.id === filters.label)) return false;
+    if (filters.assignee && !matchesAssignee(task, filters.assignee, userId)) return false;
+    if (filters.creator && task.created_by !== filters.creator) return false;
+    if (filters.due && !matchesDue(task, filters.due, now)) return false;
+    if (filters.q && !matchesText(task, filters.q)) return false;
+    return true;
+  });
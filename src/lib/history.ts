@@ -0,0 +1,61 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+// A recorded mutation that can be reverted and re-applied. Both directions check that
+// the data still looks the way this client left it, so replaying an old command never
+// overwrites a newer change made by a teammate.
+export interface Command {
+  label: string;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+export type TaskChanges = Partial<Pick<
+  Tables<'tasks'>,
+  'column_id' | 'position' | 'title' | 'description' | 'due_date' | 'priority' | 'story_points' | 'deleted_at'
+>>;
+
+const updateTaskIfUnchanged = async (taskId: string, expected: TaskChanges, changes: TaskChanges) => {
+  const entries = Object.entries(expected);
+  let query = supabase
+    .from('tasks')
+    .update(changes)
+    .eq('id', taskId)
+    .match(Object.fromEntries(entries.filter(([, value]) => value !== null)));
+
+  for (const [column] of entries.filter(([, value]) => value === null)) {
+    query = query.is(column, null);
+  }
+
+  const { data, error } = await query.select('id');
+
+  if (error) throw error;
+  if (data.length === 0) throw new Error('The task has changed since, so this step was skipped');
+};
+
+export const taskUpdateCommand = (label: string, taskId: string, before: TaskChanges, after: TaskChanges): Command => ({
+  label,
+  undo: () => updateTaskIfUnchanged(taskId, after, before),
+  redo: () => updateTaskIfUnchanged(taskId, before, after)
+});
+
+const setAssigned = async (taskId: string, userId: string, assigned: boolean) => {
+  // Both directions are idempotent: if a teammate already made the same change there is nothing to undo
+  const { error } = assigned
+    ? await supabase
+      .from('task_assignments')
+      .upsert({ task_id: taskId, user_id: userId }, { onConflict: 'task_id,user_id', ignoreDuplicates: true })
+    : await supabase
+      .from('task_assignments')
+      .delete()
+      .eq('task_id', taskId)
+      .eq('user_id', userId);
+
+  if (error) throw error;
+};
+
+export const assignmentCommand = (label: string, taskId: string, userId: string, assigned: boolean): Command => ({
+  label,
+  undo: () => setAssigned(taskId, userId, !assigned),
+  redo: () => setAssigned(taskId, userId, assigned)
+});
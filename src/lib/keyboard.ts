@@ -0,0 +1,9 @@
+// Shortcuts must not fire while the user is typing; the key belongs to the field then
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Dialogs, sheets and menus handle their own keys
+export const isInsideOverlay = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  !!target.closest('[role="dialog"], [role="alertdialog"], [role="menu"], [role="listbox"]');
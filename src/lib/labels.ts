@@ -0,0 +1,5 @@
+export interface TaskLabel {
+  id: string;
+  name: string;
+  color: string;
+}
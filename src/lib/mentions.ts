@@ -0,0 +1,110 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface MentionableMember {
+  user_id: string;
+  profiles: { display_name: string | null };
+}
+
+interface HastText {
+  type: 'text';
+  value: string;
+}
+
+interface HastParent {
+  type: string;
+  tagName?: string;
+  children?: HastNode[];
+}
+
+type HastNode = HastText | HastParent;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches "@Name" at the start of a word and not followed by more name characters
+const mentionPattern = (names: string[]) =>
+  new RegExp(`(^|\\s)(@(?:${names.map(escapeRegExp).join('|')}))(?![\\w-])`, 'g');
+
+export const getMemberName = (member: MentionableMember) => member.profiles?.display_name || null;
+
+// The partial name typed after an "@" right before the caret, if any
+export const getMentionQuery = (text: string, caret: number) => {
+  const match = /(^|\s)@([^\s@]*)$/.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { query: match[2], start: caret - match[2].length - 1 };
+};
+
+export const findMentionedUserIds = (content: string, members: MentionableMember[]) =>
+  members
+    .filter(member => {
+      const name = getMemberName(member);
+      return name && mentionPattern([name]).test(content);
+    })
+    .map(member => member.user_id);
+
+// Mention records drive notifications, so only newly mentioned people are inserted
+export const syncCommentMentions = async (commentId: string, content: string, members: MentionableMember[]) => {
+  const userIds = findMentionedUserIds(content, members);
+
+  let removal = supabase
+    .from('comment_mentions')
+    .delete()
+    .eq('comment_id', commentId);
+
+  if (userIds.length > 0) {
+    removal = removal.not('user_id', 'in', `(${userIds.join(',')})`);
+  }
+
+  const { error: removeError } = await removal;
+  if (removeError) throw removeError;
+
+  if (userIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('comment_mentions')
+    .upsert(
+      userIds.map(userId => ({ comment_id: commentId, user_id: userId })),
+      { onConflict: 'comment_id,user_id', ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+};
+
+// Rehype plugin wrapping "@Name" in a highlighted span; code and links are left alone
+export const rehypeMentions = (names: string[]) => () => (tree: HastParent) => {
+  if (names.length === 0) return;
+
+  // Prefer the longest name when one display name is a prefix of another
+  const pattern = mentionPattern([...names].sort((a, b) => b.length - a.length));
+
+  const split = (text: HastText): HastNode[] => {
+    const nodes: HastNode[] = [];
+    let lastIndex = 0;
+
+    for (const match of text.value.matchAll(pattern)) {
+      const start = match.index! + match[1].length;
+      if (start > lastIndex) nodes.push({ type: 'text', value: text.value.slice(lastIndex, start) });
+      nodes.push({
+        type: 'element',
+        tagName: 'span',
+        properties: { className: ['rounded', 'bg-primary/10', 'px-0.5', 'font-medium', 'text-primary'] },
+        children: [{ type: 'text', value: match[2] }]
+      } as HastParent);
+      lastIndex = start + match[2].length;
+    }
+
+    if (nodes.length === 0) return [text];
+    if (lastIndex < text.value.length) nodes.push({ type: 'text', value: text.value.slice(lastIndex) });
+    return nodes;
+  };
+
+  const walk = (node: HastParent) => {
+    if (!node.children || ['code', 'pre', 'a'].includes(node.tagName)) return;
+    node.children = node.children.flatMap(child => {
+      if (child.type === 'text') return split(child as HastText);
+      walk(child as HastParent);
+      return [child];
+    });
+  };
+
+  walk(tree);
+};
@@ -0,0 +1,38 @@
+export type NotificationType = 'assignment' | 'mention' | 'comment' | 'due_soon';
+
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  read_at: string | null;
+  created_at: string;
+  task_id: string;
+  actor: { display_name: string | null } | null;
+  task: {
+    title: string;
+    board_id: string;
+    board: { project_id: string } | null;
+  } | null;
+}
+
+export const describeNotification = (notification: AppNotification) => {
+  const actor = notification.actor?.display_name || 'Someone';
+  const title = notification.task?.title ?? 'a task';
+
+  switch (notification.type) {
+    case 'assignment':
+      return `${actor} assigned you to "${title}"`;
+    case 'mention':
+      return `${actor} mentioned you on "${title}"`;
+    case 'comment':
+      return `${actor} commented on "${title}"`;
+    case 'due_soon':
+      return `"${title}" is due soon`;
+  }
+};
+
+// Opens the task's board with the task modal on top
+export const getNotificationLink = (notification: AppNotification) => {
+  const { task } = notification;
+  if (!task?.board) return null;
+  return `/project/${task.board.project_id}/board/${task.board_id}?task=${notification.task_id}`;
+};
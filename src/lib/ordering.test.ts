@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MIN_POSITION_GAP,
+  POSITION_STEP,
+  needsRebalance,
+  nextPosition,
+  positionAtIndex,
+  positionBetween,
+  rebalancedPositions
+} from '@/lib/ordering';
+
+describe('positionBetween', () => {
+  it('starts an empty column at one step', () => {
+    expect(positionBetween(null, null)).toBe(POSITION_STEP);
+  });
+
+  it('goes one step before the first card', () => {
+    expect(positionBetween(null, 2048)).toBe(2048 - POSITION_STEP);
+  });
+
+  it('goes one step after the last card', () => {
+    expect(positionBetween(2048, null)).toBe(2048 + POSITION_STEP);
+  });
+
+  it('takes the midpoint between two cards', () => {
+    expect(positionBetween(1024, 2048)).toBe(1536);
+  });
+});
+
+describe('positionAtIndex', () => {
+  const siblings = [1024, 2048, 3072];
+
+  it('handles an empty column', () => {
+    expect(positionAtIndex([], 0)).toBe(POSITION_STEP);
+  });
+
+  it('places a card in the first slot before every sibling', () => {
+    expect(positionAtIndex(siblings, 0)).toBeLessThan(siblings[0]);
+  });
+
+  it('places a card in the last slot after every sibling', () => {
+    expect(positionAtIndex(siblings, siblings.length)).toBeGreaterThan(siblings[siblings.length - 1]);
+  });
+
+  it('places a card between its neighbours', () => {
+    const position = positionAtIndex(siblings, 2);
+    expect(position).toBeGreaterThan(siblings[1]);
+    expect(position).toBeLessThan(siblings[2]);
+  });
+});
+
+describe('needsRebalance', () => {
+  it('never rebalances an empty column or the first and last slot', () => {
+    expect(needsRebalance([], 0)).toBe(false);
+    expect(needsRebalance([1, 1 + MIN_POSITION_GAP / 2], 0)).toBe(false);
+    expect(needsRebalance([1, 1 + MIN_POSITION_GAP / 2], 2)).toBe(false);
+  });
+
+  it('keeps using a gap that is still wide enough', () => {
+    expect(needsRebalance([1024, 2048], 1)).toBe(false);
+  });
+
+  it('rebalances once repeated moves into the same gap run out of precision', () => {
+    let before = 1024;
+    const after = 2048;
+    let moves = 0;
+
+    // Keep dropping cards right after `before`, halving the gap every time
+    while (!needsRebalance([before, after], 1)) {
+      const position = positionAtIndex([before, after], 1);
+      expect(position).toBeGreaterThan(before);
+      expect(position).toBeLessThan(after);
+      before = position;
+      moves++;
+    }
+
+    expect(moves).toBeGreaterThan(0);
+    expect(after - before).toBeLessThan(MIN_POSITION_GAP);
+  });
+});
+
+describe('rebalancedPositions', () => {
+  it('returns nothing for an empty column', () => {
+    expect(rebalancedPositions(0)).toEqual([]);
+  });
+
+  it('spaces positions one step apart in ascending order', () => {
+    const positions = rebalancedPositions(4);
+    expect(positions).toEqual([1024, 2048, 3072, 4096]);
+    expect([...positions].sort((a, b) => a - b)).toEqual(positions);
+  });
+});
+
+describe('nextPosition', () => {
+  it('appends after the highest position', () => {
+    expect(nextPosition([])).toBe(POSITION_STEP);
+    expect(nextPosition([3072, 1024])).toBe(3072 + POSITION_STEP);
+  });
+});
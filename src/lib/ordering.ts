@@ -0,0 +1,33 @@
+// Tasks are ordered by fractional positions: a moved task takes a position between
+// its new neighbours, so only the moved row has to be written. When repeated moves
+// into the same gap exhaust floating point precision the column is renumbered.
+
+export const POSITION_STEP = 1024;
+export const MIN_POSITION_GAP = 1e-6;
+
+export const positionBetween = (before: number | null, after: number | null): number => {
+  if (before === null && after === null) return POSITION_STEP;
+  if (before === null) return after! - POSITION_STEP;
+  if (after === null) return before + POSITION_STEP;
+  return (before + after) / 2;
+};
+
+// `siblings` are the sorted positions of the destination column without the moved task
+export const positionAtIndex = (siblings: number[], index: number): number => {
+  const before = index > 0 ? siblings[index - 1] : null;
+  const after = index < siblings.length ? siblings[index] : null;
+  return positionBetween(before, after);
+};
+
+export const needsRebalance = (siblings: number[], index: number): boolean => {
+  const before = index > 0 ? siblings[index - 1] : null;
+  const after = index < siblings.length ? siblings[index] : null;
+  if (before === null || after === null) return false;
+  return after - before < MIN_POSITION_GAP;
+};
+
+export const rebalancedPositions = (count: number): number[] =>
+  Array.from({ length: count }, (_, i) => (i + 1) * POSITION_STEP);
+
+export const nextPosition = (positions: number[]): number =>
+  positions.length > 0 ? Math.max(...positions) + POSITION_STEP : POSITION_STEP;
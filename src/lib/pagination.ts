@@ -0,0 +1,17 @@
+export type PageItem = number | 'ellipsis';
+
+// Page numbers around the current page plus the first and last, with gaps collapsed
+export const getPageItems = (page: number, pageCount: number, siblings = 1): PageItem[] => {
+  const pages = new Set([1, pageCount]);
+  for (let p = Math.max(page - siblings, 1); p <= Math.min(page + siblings, pageCount); p++) {
+    pages.add(p);
+  }
+
+  const sorted = [...pages].sort((a, b) => a - b);
+  const items: PageItem[] = [];
+  sorted.forEach((p, index) => {
+    if (index > 0 && p - sorted[index - 1] > 1) items.push('ellipsis');
+    items.push(p);
+  });
+  return items;
+};
@@ -0,0 +1,22 @@
+export type ProjectRole = 'owner' | 'admin' | 'member';
+
+export interface ProjectPermissions {
+  canDeleteTasks: boolean;
+  canManageBoards: boolean;
+  canManageMembers: boolean;
+  canEditProject: boolean;
+}
+
+// Mirrors the RLS policies in the role-based permissions migration
+export const PERMISSION_MATRIX: Record<ProjectRole, ProjectPermissions> = {
+  owner: { canDeleteTasks: true, canManageBoards: true, canManageMembers: true, canEditProject: true },
+  admin: { canDeleteTasks: true, canManageBoards: true, canManageMembers: true, canEditProject: false },
+  member: { canDeleteTasks: false, canManageBoards: false, canManageMembers: false, canEditProject: false }
+};
+
+export const NO_PERMISSIONS: ProjectPermissions = {
+  canDeleteTasks: false,
+  canManageBoards: false,
+  canManageMembers: false,
+  canEditProject: false
+};
@@ -0,0 +1,11 @@
+export type TaskPriority = 'urgent' | 'high' | 'medium' | 'low';
+
+export const PRIORITY_OPTIONS: { value: TaskPriority; label: string; className: string }[] = [
+  { value: 'urgent', label: 'Urgent', className: 'bg-red-100 text-red-800 border-red-200' },
+  { value: 'high', label: 'High', className: 'bg-orange-100 text-orange-800 border-orange-200' },
+  { value: 'medium', label: 'Medium', className: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+  { value: 'low', label: 'Low', className: 'bg-slate-100 text-slate-700 border-slate-200' }
+];
+
+export const getPriorityOption = (priority: TaskPriority | null) =>
+  PRIORITY_OPTIONS.find(option => option.value === priority) ?? null;
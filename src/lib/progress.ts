@@ -0,0 +1,26 @@
+export interface TaskProgress {
+  completed: number;
+  total: number;
+}
+
+interface ProgressTask {
+  id: string;
+  column_id: string;
+  parent_task_id: string | null;
+  checklist_total?: number;
+  checklist_done?: number;
+}
+
+// Combines checklist items and subtasks; a subtask counts once it sits in a done column
+export const getTaskProgress = <T extends ProgressTask>(
+  task: T,
+  tasks: T[],
+  doneColumnIds: Set<string>
+): TaskProgress => {
+  const subtasks = tasks.filter(t => t.parent_task_id === task.id);
+
+  return {
+    completed: (task.checklist_done ?? 0) + subtasks.filter(t => doneColumnIds.has(t.column_id)).length,
+    total: (task.checklist_total ?? 0) + subtasks.length
+  };
+};
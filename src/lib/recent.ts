@@ -0,0 +1,54 @@
+// Remembers which projects, boards and tasks were opened on this device, so search
+// results can put what the user worked on last first.
+
+export type RecentKind = 'project' | 'board' | 'task';
+
+const STORAGE_KEY = 'recent-visits';
+const RECENT_LIMIT = 200;
+
+const readVisits = (): Record<string, number> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const recordVisit = (kind: RecentKind, id: string) => {
+  const visits = { ...readVisits(), [`${kind}:${id}`]: Date.now() };
+  const kept = Object.entries(visits)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, RECENT_LIMIT);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(kept)));
+};
+
+export const getRecentIds = (kind: RecentKind, limit: number) =>
+  Object.entries(readVisits())
+    .filter(([key]) => key.startsWith(`${kind}:`))
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([key]) => key.slice(kind.length + 1));
+
+// Most recently visited first; items never opened here follow by last update
+export const sortByRecency = <T extends { id: string; updated_at: string }>(items: T[], kind: RecentKind) => {
+  const visits = readVisits();
+  const visitedAt = (item: T) => visits[`${kind}:${item.id}`] ?? 0;
+  return [...items].sort((a, b) => visitedAt(b) - visitedAt(a) || b.updated_at.localeCompare(a.updated_at));
+};
+
+// Subsequence match, so "rlsnt" finds "Release notes"
+export const fuzzyMatch = (text: string, query: string) => {
+  const haystack = text.toLowerCase();
+  let index = 0;
+
+  for (const char of query.toLowerCase().replace(/\s+/g, '')) {
+    index = haystack.indexOf(char, index);
+    if (index === -1) return false;
+    index++;
+  }
+  return true;
+};
+
+// The same match as an ilike pattern, for searching in the database
+export const fuzzyPattern = (query: string) =>
+  `%${[...query.replace(/\s+/g, '')].map(char => char.replace(/[\\%_]/g, '\\$&')).join('%')}%`;
@@ -0,0 +1,50 @@
+import { supabase } from '@/integrations/supabase/client';
+import { ATTACHMENTS_BUCKET } from '@/lib/attachments';
+
+export type TransferMode = 'move' | 'duplicate';
+
+export interface TaskTransferResult {
+  task_id: string;
+  dropped_assignees: string[];
+  attachments: { id: string; from: string; to: string }[];
+  failedAttachments: number;
+}
+
+// Storage paths start with the project id, so the files are relocated here after the
+// RPC. Attachment rows are only pointed at the new path once their file is in place.
+export const transferTask = async (mode: TransferMode, taskId: string, boardId: string): Promise<TaskTransferResult> => {
+  const { data, error } = await supabase.rpc(mode === 'move' ? 'move_task' : 'duplicate_task', {
+    p_task_id: taskId,
+    p_board_id: boardId
+  });
+
+  if (error) throw error;
+
+  const result = data as unknown as Omit<TaskTransferResult, 'failedAttachments'>;
+  const bucket = supabase.storage.from(ATTACHMENTS_BUCKET);
+  let failedAttachments = 0;
+
+  for (const { id, from, to } of result.attachments) {
+    const { error: storageError } = mode === 'move'
+      ? await bucket.move(from, to)
+      : await bucket.copy(from, to);
+
+    if (storageError) {
+      failedAttachments++;
+      continue;
+    }
+
+    const { error: rowError } = mode === 'move'
+      ? await supabase.rpc('relocate_attachment', { p_attachment_id: id })
+      : await supabase.rpc('copy_attachment', { p_attachment_id: id, p_task_id: result.task_id });
+
+    if (rowError) {
+      // Put the file back where its row still points
+      if (mode === 'move') await bucket.move(to, from);
+      else await bucket.remove([to]);
+      failedAttachments++;
+    }
+  }
+
+  return { ...result, failedAttachments };
+};
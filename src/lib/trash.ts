@@ -0,0 +1,46 @@
+import { addDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { ATTACHMENTS_BUCKET } from '@/lib/attachments';
+
+// Matches the default retention of purge_deleted_tasks()
+export const TRASH_RETENTION_DAYS = 30;
+
+export const getPurgeDate = (deletedAt: string) => addDays(new Date(deletedAt), TRASH_RETENTION_DAYS);
+
+// Subtasks follow their parent in both directions (see cascade_task_visibility)
+export const setTasksDeleted = async (taskIds: string[], deleted: boolean) => {
+  const { error } = await supabase
+    .from('tasks')
+    .update({ deleted_at: deleted ? new Date().toISOString() : null })
+    .in('id', taskIds);
+
+  if (error) throw error;
+};
+
+export const setTasksArchived = async (taskIds: string[], archived: boolean) => {
+  const { error } = await supabase
+    .from('tasks')
+    .update({ archived_at: archived ? new Date().toISOString() : null })
+    .in('id', taskIds);
+
+  if (error) throw error;
+};
+
+export const purgeTasks = async (taskIds: string[]) => {
+  // Attachment rows cascade with the tasks, but the stored files have to be removed separately
+  const { data: attachments } = await supabase
+    .from('attachments')
+    .select('file_path')
+    .in('task_id', taskIds);
+
+  const { error } = await supabase
+    .from('tasks')
+    .delete()
+    .in('id', taskIds);
+
+  if (error) throw error;
+
+  if (attachments && attachments.length > 0) {
+    await supabase.storage.from(ATTACHMENTS_BUCKET).remove(attachments.map(a => a.file_path));
+  }
+};
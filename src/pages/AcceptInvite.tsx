@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+
+interface InvitationDetails {
+  project_id: string;
+  project_name: string;
+  email: string;
+  role: 'owner' | 'admin' | 'member';
+  inviter_name: string | null;
+  expires_at: string;
+  accepted_at: string | null;
+}
+
+const AcceptInvite = () => {
+  const { token } = useParams<{ token: string }>();
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [loadingInvitation, setLoadingInvitation] = useState(true);
+  const [isAccepting, setIsAccepting] = useState(false);
+  const { user, loading } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (loading) return;
+    if (!user) {
+      navigate(`/auth?redirect=${encodeURIComponent(`/invite/${token}`)}`);
+      return;
+    }
+    fetchInvitation();
+  }, [user, loading, token, navigate]);
+
+  const fetchInvitation = async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_project_invitation', { p_token: token! });
+
+      if (error) throw error;
+      setInvitation(data?.[0] ?? null);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load invitation',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoadingInvitation(false);
+    }
+  };
+
+  const handleAccept = async () => {
+    setIsAccepting(true);
+    try {
+      const { data: projectId, error } = await supabase.rpc('accept_project_invitation', { p_token: token! });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Success',
+        description: `You joined ${invitation?.project_name}`
+      });
+      navigate(`/project/${projectId}`);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    } finally {
+      setIsAccepting(false);
+    }
+  };
+
+  if (loading || loadingInvitation) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading invitation...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const isExpired = invitation && new Date(invitation.expires_at) < new Date();
+  const problem = !invitation
+    ? 'This invitation link is invalid or has been revoked.'
+    : invitation.accepted_at
+      ? 'This invitation has already been used.'
+      : isExpired
+        ? 'This invitation has expired. Ask a project admin to send a new one.'
+        : invitation.email.toLowerCase() !== user?.email?.toLowerCase()
+          ? `This invitation was sent to ${invitation.email}. Sign in with that address to accept it.`
+          : null;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold">
+            {invitation ? `Join ${invitation.project_name}` : 'Invitation'}
+          </CardTitle>
+          {invitation && (
+            <CardDescription>
+              {invitation.inviter_name || 'A teammate'} invited you to join as {invitation.role === 'admin' ? 'an admin' : 'a member'}
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {problem && <p className="text-sm text-muted-foreground text-center">{problem}</p>}
+          {!problem && (
+            <Button className="w-full" onClick={handleAccept} disabled={isAccepting}>
+              {isAccepting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Accept Invitation
+            </Button>
+          )}
+          <Button variant="outline" className="w-full" onClick={() => navigate('/dashboard')}>
+            Go to Dashboard
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AcceptInvite;
@@ -9,13 +9,15 @@ import { Textarea } from '@/components/ui/textarea';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Settings, LogOut, Users } from 'lucide-react';
+import NotificationBell from '@/components/NotificationBell';
+import { Plus, Settings, LogOut, Users, ListTodo } from 'lucide-react';
 
 interface Project {
   id: string;
   name: string;
   description: string | null;
   created_at: string;
+  archived_at: string | null;
   member_count?: number;
 }
 
@@ -23,6 +25,7 @@ const Dashboard = () => {
   const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(true);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
   const [newProject, setNewProject] = useState({ name: '', description: '' });
   const { user, signOut } = useAuth();
   const { toast } = useToast();
@@ -126,6 +129,9 @@ const Dashboard = () => {
     }
   };
 
+  const visibleProjects = projects.filter(project => !!project.archived_at === showArchived);
+  const archivedCount = projects.filter(project => project.archived_at).length;
+
   const handleSignOut = async () => {
     await signOut();
     navigate('/auth');
@@ -148,6 +154,11 @@ const Dashboard = () => {
         <div className="container mx-auto px-4 py-4 flex justify-between items-center">
           <h1 className="text-2xl font-bold">Project Manager</h1>
           <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => navigate('/my-tasks')}>
+              <ListTodo className="h-4 w-4 mr-2" />
+              My Tasks
+            </Button>
+            <NotificationBell />
             <span className="text-sm text-muted-foreground">
               Welcome, {user?.user_metadata?.display_name || user?.email}
             </span>
@@ -162,8 +173,13 @@ const Dashboard = () => {
       <main className="container mx-auto px-4 py-8">
         <div className="flex justify-between items-center mb-8">
           <div>
-            <h2 className="text-3xl font-bold mb-2">Your Projects</h2>
+            <h2 className="text-3xl font-bold mb-2">{showArchived ? 'Archived Projects' : 'Your Projects'}</h2>
             <p className="text-muted-foreground">Manage and collaborate on your projects</p>
+            {(archivedCount > 0 || showArchived) && (
+              <Button variant="link" className="px-0" onClick={() => setShowArchived(!showArchived)}>
+                {showArchived ? 'Back to active projects' : `Show archived (${archivedCount})`}
+              </Button>
+            )}
           </div>
           <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
             <DialogTrigger asChild>
@@ -205,7 +221,9 @@ const Dashboard = () => {
           </Dialog>
         </div>
 
-        {projects.length === 0 ? (
+        {showArchived && visibleProjects.length === 0 ? (
+          <p className="text-center py-12 text-muted-foreground">No archived projects</p>
+        ) : visibleProjects.length === 0 ? (
           <div className="text-center py-12">
             <div className="mx-auto w-24 h-24 bg-muted rounded-full flex items-center justify-center mb-4">
               <Plus className="h-12 w-12 text-muted-foreground" />
@@ -219,14 +237,27 @@ const Dashboard = () => {
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {projects.map((project) => (
+            {visibleProjects.map((project) => (
               <Card 
                 key={project.id} 
                 className="cursor-pointer hover:shadow-md transition-shadow"
                 onClick={() => navigate(`/project/${project.id}`)}
               >
                 <CardHeader>
-                  <CardTitle className="text-lg">{project.name}</CardTitle>
+                  <div className="flex justify-between items-start gap-2">
+                    <CardTitle className="text-lg">{project.name}</CardTitle>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 shrink-0"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        navigate(`/project/${project.id}/settings`);
+                      }}
+                    >
+                      <Settings className="h-4 w-4" />
+                    </Button>
+                  </div>
                   <CardDescription className="line-clamp-2">
                     {project.description || 'No description provided'}
                   </CardDescription>
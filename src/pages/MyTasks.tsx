@@ -0,0 +1,282 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import NotificationBell from '@/components/NotificationBell';
+import { PriorityBadge } from '@/components/TaskBadges';
+import { BoardColumn } from '@/lib/columns';
+import { DUE_BUCKETS, formatDueDate, getDueBucket } from '@/lib/due';
+import { TaskPriority } from '@/lib/priorities';
+import { cn } from '@/lib/utils';
+import { ArrowLeft, Calendar } from 'lucide-react';
+
+interface MyTask {
+  id: string;
+  title: string;
+  due_date: string | null;
+  priority: TaskPriority | null;
+  column_id: string;
+  board_id: string;
+  board: {
+    name: string;
+    project_id: string;
+    project: { name: string; archived_at: string | null } | null;
+  } | null;
+}
+
+interface TaskGroup {
+  key: string;
+  label: string;
+  tasks: MyTask[];
+}
+
+type GroupBy = 'due' | 'project';
+
+const byDueDate = (a: MyTask, b: MyTask) => {
+  if (!a.due_date) return b.due_date ? 1 : 0;
+  if (!b.due_date) return -1;
+  return new Date(a.due_date).getTime() - new Date(b.due_date).getTime();
+};
+
+const MyTasks = () => {
+  const [tasks, setTasks] = useState<MyTask[]>([]);
+  const [columns, setColumns] = useState<BoardColumn[]>([]);
+  const [showCompleted, setShowCompleted] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const groupBy: GroupBy = searchParams.get('group') === 'project' ? 'project' : 'due';
+
+  useEffect(() => {
+    if (!user) {
+      navigate('/auth');
+      return;
+    }
+    fetchMyTasks();
+  }, [user, navigate]);
+
+  const fetchMyTasks = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('tasks')
+        .select(`
+          id,
+          title,
+          due_date,
+          priority,
+          column_id,
+          board_id,
+          board:boards(name, project_id, project:projects(name, archived_at)),
+          task_assignments!inner(user_id)
+        `)
+        .eq('task_assignments.user_id', user!.id)
+        .is('deleted_at', null)
+        .is('archived_at', null);
+
+      if (error) throw error;
+
+      const activeTasks = data.filter(task => !task.board?.project?.archived_at);
+      setTasks(activeTasks);
+
+      // Each board has its own workflow, so load the columns for every board involved
+      const boardIds = [...new Set(activeTasks.map(task => task.board_id))];
+      if (boardIds.length > 0) {
+        const { data: columnData, error: columnError } = await supabase
+          .from('board_columns')
+          .select('*')
+          .in('board_id', boardIds)
+          .order('position');
+
+        if (columnError) throw columnError;
+        setColumns(columnData);
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch your tasks',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStatusChange = async (task: MyTask, columnId: string) => {
+    const previousColumnId = task.column_id;
+    setTasks(prev => prev.map(t => t.id === task.id ? { ...t, column_id: columnId } : t));
+
+    try {
+      // Appends the task to the end of its new column
+      const { error } = await supabase.rpc('move_tasks_to_column', {
+        p_task_ids: [task.id],
+        p_column_id: columnId
+      });
+
+      if (error) throw error;
+    } catch (error) {
+      setTasks(prev => prev.map(t => t.id === task.id ? { ...t, column_id: previousColumnId } : t));
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const openTask = (task: MyTask) => {
+    // backOnClose makes closing the modal return here instead of staying on the board
+    navigate(
+      `/project/${task.board?.project_id}/board/${task.board_id}?task=${task.id}`,
+      { state: { backOnClose: true } }
+    );
+  };
+
+  const isDone = (task: MyTask) => columns.find(c => c.id === task.column_id)?.is_done ?? false;
+
+  const visibleTasks = tasks.filter(task => showCompleted || !isDone(task)).sort(byDueDate);
+
+  const groups: TaskGroup[] = groupBy === 'due'
+    ? DUE_BUCKETS.map(bucket => ({
+        key: bucket.value,
+        label: bucket.label,
+        tasks: visibleTasks.filter(task => getDueBucket(task.due_date) === bucket.value)
+      }))
+    : [...new Set(visibleTasks.map(task => task.board?.project_id))].map(projectId => {
+        const projectTasks = visibleTasks.filter(task => task.board?.project_id === projectId);
+        return {
+          key: projectId,
+          label: projectTasks[0].board?.project?.name ?? 'Unknown project',
+          tasks: projectTasks
+        };
+      }).sort((a, b) => a.label.localeCompare(b.label));
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading your tasks...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" onClick={() => navigate('/dashboard')}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold">My Tasks</h1>
+              <p className="text-muted-foreground">Everything assigned to you across projects</p>
+            </div>
+            <div className="ml-auto">
+              <NotificationBell />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <Tabs
+            value={groupBy}
+            onValueChange={(value) => setSearchParams(value === 'project' ? { group: value } : {}, { replace: true })}
+          >
+            <TabsList>
+              <TabsTrigger value="due">By due date</TabsTrigger>
+              <TabsTrigger value="project">By project</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <div className="flex items-center gap-2">
+            <Switch id="show-completed" checked={showCompleted} onCheckedChange={setShowCompleted} />
+            <Label htmlFor="show-completed">Show completed</Label>
+          </div>
+        </div>
+
+        {visibleTasks.length === 0 ? (
+          <div className="text-center py-12">
+            <h3 className="text-xl font-semibold mb-2">Nothing assigned to you</h3>
+            <p className="text-muted-foreground">Tasks you're assigned to in any project will show up here</p>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            {groups.filter(group => group.tasks.length > 0).map((group) => (
+              <section key={group.key}>
+                <h2 className="text-lg font-semibold mb-3">
+                  {group.label}
+                  <span className="ml-2 text-sm font-normal text-muted-foreground">{group.tasks.length}</span>
+                </h2>
+                <Card>
+                  <CardContent className="p-0 divide-y">
+                    {group.tasks.map((task) => {
+                      const overdue = getDueBucket(task.due_date) === 'overdue' && !isDone(task);
+
+                      return (
+                        <div key={task.id} className="flex items-center gap-4 px-4 py-3">
+                          <div className="flex-1 min-w-0">
+                            <button
+                              type="button"
+                              className={cn(
+                                'block truncate text-left font-medium hover:underline',
+                                isDone(task) && 'line-through text-muted-foreground'
+                              )}
+                              onClick={() => openTask(task)}
+                            >
+                              {task.title}
+                            </button>
+                            <p className="text-xs text-muted-foreground truncate">
+                              {task.board?.project?.name} / {task.board?.name}
+                            </p>
+                          </div>
+                          <PriorityBadge priority={task.priority} />
+                          {task.due_date && (
+                            <div className={cn(
+                              'flex items-center gap-1 text-xs',
+                              overdue ? 'text-destructive' : 'text-muted-foreground'
+                            )}>
+                              <Calendar className="h-3 w-3" />
+                              <span>{formatDueDate(task.due_date)}</span>
+                            </div>
+                          )}
+                          <Select value={task.column_id} onValueChange={(value) => handleStatusChange(task, value)}>
+                            <SelectTrigger className="h-8 w-36">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {columns.filter(c => c.board_id === task.board_id).map((column) => (
+                                <SelectItem key={column.id} value={column.id}>
+                                  {column.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      );
+                    })}
+                  </CardContent>
+                </Card>
+              </section>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default MyTasks;
@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useRef } from 'react';
+import { useParams, useNavigate, useSearchParams, useLocation } from 'react-router-dom';
 import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -8,29 +8,73 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
-import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePaletteCommands } from '@/contexts/CommandPaletteContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { ArrowLeft, Plus, Calendar, MessageSquare, User } from 'lucide-react';
+import { useBoardRealtime } from '@/hooks/use-board-realtime';
+import { useCommandHistory } from '@/hooks/use-command-history';
+import { useBoardKeyboard } from '@/hooks/use-board-keyboard';
+import { useProjectPermissions } from '@/hooks/use-project-permissions';
+import { Archive, ArrowLeft, CalendarDays, CircleDot, Columns3, Keyboard, Plus, Settings, Table2, Trash2, User, UserMinus, UserPlus, Users } from 'lucide-react';
 import TaskModal from '@/components/TaskModal';
+import BoardTabs, { Board } from '@/components/BoardTabs';
+import BoardColumnMenu from '@/components/BoardColumnMenu';
+import ProjectMembersPanel from '@/components/ProjectMembersPanel';
+import TaskCardContent from '@/components/TaskCardContent';
+import BoardToolbar from '@/components/BoardToolbar';
+import NotificationBell from '@/components/NotificationBell';
+import TaskCalendar from '@/components/TaskCalendar';
+import TaskTable from '@/components/TaskTable';
+import BulkActionBar from '@/components/BulkActionBar';
+import ArchivedTaskList from '@/components/ArchivedTaskList';
+import ProjectTrashPanel from '@/components/ProjectTrashPanel';
+import InlineTitleInput from '@/components/InlineTitleInput';
+import KeyboardShortcutsDialog from '@/components/KeyboardShortcutsDialog';
+import { BoardColumn } from '@/lib/columns';
+import { getColor } from '@/lib/colors';
+import { BoardFilters, filterTasks, readFilters, writeFilters } from '@/lib/filters';
+import { TaskLabel } from '@/lib/labels';
+import { TaskPriority } from '@/lib/priorities';
+import { assignmentCommand, taskUpdateCommand } from '@/lib/history';
+import { needsRebalance, nextPosition, positionAtIndex, positionBetween, rebalancedPositions } from '@/lib/ordering';
+import { getTaskProgress } from '@/lib/progress';
+import { recordVisit } from '@/lib/recent';
+import { setTasksArchived } from '@/lib/trash';
 
 interface Task {
   id: string;
   title: string;
   description: string | null;
-  status: 'todo' | 'in_progress' | 'review' | 'done';
+  board_id: string;
+  column_id: string;
+  parent_task_id: string | null;
   position: number;
   due_date: string | null;
+  priority: TaskPriority | null;
+  story_points: number | null;
   created_at: string;
+  created_by: string;
+  archived_at: string | null;
   assignees?: { user_id: string; profiles: { display_name: string | null } }[];
+  labels?: TaskLabel[];
   comments_count?: number;
+  attachments_count?: number;
+  checklist_total?: number;
+  checklist_done?: number;
 }
 
-interface Board {
-  id: string;
-  name: string;
-  description: string | null;
+type BoardView = 'board' | 'calendar' | 'table' | 'archived';
+
+const BOARD_VIEWS: BoardView[] = ['board', 'calendar', 'table', 'archived'];
+
+// The API's max rows per response
+const TASK_BATCH_SIZE = 1000;
+
+interface ProjectMember {
+  user_id: string;
+  profiles: { display_name: string | null };
 }
 
 interface Project {
@@ -39,35 +83,53 @@ interface Project {
   description: string | null;
 }
 
-const STATUS_COLUMNS = [
-  { id: 'todo', title: 'To Do', color: 'bg-slate-100' },
-  { id: 'in_progress', title: 'In Progress', color: 'bg-blue-100' },
-  { id: 'review', title: 'Review', color: 'bg-yellow-100' },
-  { id: 'done', title: 'Done', color: 'bg-green-100' }
-];
-
 const ProjectBoard = () => {
-  const { projectId } = useParams<{ projectId: string }>();
+  const { projectId, boardId } = useParams<{ projectId: string; boardId?: string }>();
   const [project, setProject] = useState<Project | null>(null);
+  const [boards, setBoards] = useState<Board[]>([]);
   const [board, setBoard] = useState<Board | null>(null);
+  const [columns, setColumns] = useState<BoardColumn[]>([]);
+  const [labels, setLabels] = useState<TaskLabel[]>([]);
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
   const [tasks, setTasks] = useState<Task[]>([]);
-  const [selectedTask, setSelectedTask] = useState<Task | null>(null);
-  const [isTaskModalOpen, setIsTaskModalOpen] = useState(false);
+  const [selectedTaskIds, setSelectedTaskIds] = useState<Set<string>>(new Set());
+  const selectionAnchorRef = useRef<string | null>(null);
+  const [taskLinkError, setTaskLinkError] = useState<string | null>(null);
   const [isCreateTaskOpen, setIsCreateTaskOpen] = useState(false);
-  const [newTaskStatus, setNewTaskStatus] = useState<string>('');
+  const [newTaskColumnId, setNewTaskColumnId] = useState<string>('');
+  const [isCreateColumnOpen, setIsCreateColumnOpen] = useState(false);
+  const [isMembersOpen, setIsMembersOpen] = useState(false);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const [editingTaskId, setEditingTaskId] = useState<string | null>(null);
+  const [newColumnName, setNewColumnName] = useState('');
   const [newTask, setNewTask] = useState({ title: '', description: '' });
   const [loading, setLoading] = useState(true);
   const { user } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
+  const location = useLocation();
+  const permissions = useProjectPermissions(projectId);
+  const history = useCommandHistory(() => board && fetchTasks(board.id));
 
   useEffect(() => {
     if (!user || !projectId) {
       navigate('/auth');
       return;
     }
+    setSelectedTaskIds(new Set());
+    history.clear();
     fetchProjectData();
-  }, [user, projectId, navigate]);
+  }, [user, projectId, boardId, navigate]);
+
+  // The open task lives in ?task= so it can be shared and closed with the back button
+  const selectedTaskId = searchParams.get('task');
+
+  useEffect(() => {
+    if (!selectedTaskId || loading || !board) return;
+    resolveTaskLink(selectedTaskId);
+  }, [selectedTaskId, loading, board?.id]);
 
   const fetchProjectData = async () => {
     try {
@@ -81,20 +143,31 @@ const ProjectBoard = () => {
       if (projectError) throw projectError;
       setProject(projectData);
 
-      // Fetch the first board for this project
-      const { data: boardData, error: boardError } = await supabase
-        .from('boards')
-        .select('*')
-        .eq('project_id', projectId)
-        .order('position')
-        .limit(1)
-        .single();
+      const boardList = await fetchBoards();
+      await fetchLabels();
+      await fetchMembers();
+
+      // Open the board from the URL, falling back to the first active board
+      const activeBoard = boardId
+        ? boardList.find(b => b.id === boardId)
+        : boardList.find(b => !b.archived_at) ?? boardList[0];
 
-      if (boardError) throw boardError;
-      setBoard(boardData);
+      if (!activeBoard) {
+        toast({
+          title: 'Error',
+          description: boardId ? 'Board not found' : 'This project has no boards',
+          variant: 'destructive'
+        });
+        if (boardId) navigate(`/project/${projectId}`, { replace: true });
+        return;
+      }
+      setBoard(activeBoard);
+      recordVisit('project', projectId!);
+      recordVisit('board', activeBoard.id);
 
-      // Fetch tasks for this board
-      await fetchTasks(boardData.id);
+      // Fetch columns and tasks for this board
+      await fetchColumns(activeBoard.id);
+      await fetchTasks(activeBoard.id);
     } catch (error: any) {
       toast({
         title: 'Error',
@@ -107,9 +180,203 @@ const ProjectBoard = () => {
     }
   };
 
-  const fetchTasks = async (boardId: string) => {
+  const fetchBoards = async () => {
+    const { data, error } = await supabase
+      .from('boards')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('position');
+
+    if (error) throw error;
+    setBoards(data);
+
+    // Keep the active board's details in sync after renames
+    setBoard(current => data.find(b => b.id === current?.id) ?? current);
+    return data;
+  };
+
+  const refreshBoards = async () => {
+    try {
+      await fetchBoards();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch boards',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  // Assignment and comment changes arrive for every task the user can see
+  const isOnBoard = (taskId: string | undefined) => tasks.some(t => t.id === taskId);
+
+  // Merge changes from other users into local state
+  useBoardRealtime(board?.id ?? null, {
+    onTaskChange: (payload) => {
+      if (payload.eventType === 'DELETE') {
+        setTasks(prev => prev.filter(t => t.id !== payload.old.id));
+        return;
+      }
+
+      const row = payload.new;
+      setTasks(prev => {
+        // Trashed tasks disappear from the board
+        if (row.board_id !== board?.id || row.deleted_at) return prev.filter(t => t.id !== row.id);
+
+        const existing = prev.find(t => t.id === row.id);
+        if (!existing) return [...prev, { ...row, assignees: [], comments_count: 0 }];
+        return prev.map(t => t.id === row.id ? { ...t, ...row } : t);
+      });
+    },
+    onAssignmentChange: async (payload) => {
+      const taskId = payload.eventType === 'DELETE' ? payload.old.task_id : payload.new.task_id;
+      if (!isOnBoard(taskId)) return;
+
+      if (payload.eventType === 'DELETE') {
+        const { task_id, user_id } = payload.old;
+        setTasks(prev => prev.map(t => t.id === task_id
+          ? { ...t, assignees: t.assignees?.filter(a => a.user_id !== user_id) }
+          : t
+        ));
+        return;
+      }
+      if (payload.eventType !== 'INSERT') return;
+
+      const { task_id, user_id } = payload.new;
+
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('display_name')
+        .eq('user_id', user_id)
+        .maybeSingle();
+
+      setTasks(prev => prev.map(t => t.id === task_id && !t.assignees?.some(a => a.user_id === user_id)
+        ? { ...t, assignees: [...(t.assignees || []), { user_id, profiles: { display_name: profile?.display_name ?? null } }] }
+        : t
+      ));
+    },
+    onCommentChange: (payload) => {
+      if (payload.eventType === 'UPDATE') return;
+
+      const taskId = payload.eventType === 'INSERT' ? payload.new.task_id : payload.old.task_id;
+      if (!isOnBoard(taskId)) return;
+
+      const delta = payload.eventType === 'INSERT' ? 1 : -1;
+      setTasks(prev => prev.map(t => t.id === taskId
+        ? { ...t, comments_count: Math.max((t.comments_count || 0) + delta, 0) }
+        : t
+      ));
+    }
+  });
+
+  const selectBoard = (id: string) => {
+    // Carry the active filters over to the other board, but not the open task
+    const search = new URLSearchParams(searchParams);
+    search.delete('task');
+    navigate({ pathname: `/project/${projectId}/board/${id}`, search: search.toString() });
+  };
+
+  const fetchColumns = async (boardId: string) => {
     try {
       const { data, error } = await supabase
+        .from('board_columns')
+        .select('*')
+        .eq('board_id', boardId)
+        .order('position');
+
+      if (error) throw error;
+      setColumns(data);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch columns',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const refreshColumns = async () => {
+    if (!board) return;
+    // Deleting a column moves its tasks, so reload both
+    await fetchColumns(board.id);
+    await fetchTasks(board.id);
+  };
+
+  const handleCreateColumn = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!board) return;
+
+    try {
+      const maxPosition = Math.max(...columns.map(c => c.position), -1);
+
+      const { error } = await supabase
+        .from('board_columns')
+        .insert([
+          {
+            board_id: board.id,
+            name: newColumnName.trim(),
+            position: maxPosition + 1
+          }
+        ]);
+
+      if (error) throw error;
+
+      setNewColumnName('');
+      setIsCreateColumnOpen(false);
+      await fetchColumns(board.id);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const fetchLabels = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('labels')
+        .select('id, name, color')
+        .eq('project_id', projectId)
+        .order('name');
+
+      if (error) throw error;
+      setLabels(data);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch labels',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const fetchMembers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('project_members')
+        .select(`
+          user_id,
+          profiles!fk_project_members_user_id(display_name)
+        `)
+        .eq('project_id', projectId);
+
+      if (error) throw error;
+      setMembers(data || []);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch project members',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const fetchTasks = async (boardId: string) => {
+    try {
+      const selectTasks = (from: number) => supabase
         .from('tasks')
         .select(`
           *,
@@ -117,17 +384,39 @@ const ProjectBoard = () => {
             user_id,
             profiles!fk_task_assignments_user_id(display_name)
           ),
-          comments!left(id)
-        `)
+          comments!left(id),
+          attachments!left(id),
+          task_checklist_items!left(is_done),
+          task_labels!left(
+            labels(id, name, color)
+          )
+        `, { count: 'exact' })
         .eq('board_id', boardId)
-        .order('position');
+        .is('deleted_at', null)
+        .order('position')
+        .order('id')
+        .range(from, from + TASK_BATCH_SIZE - 1);
 
-      if (error) throw error;
+      // Read large boards in batches so the table and filters see every task
+      const first = await selectTasks(0);
+      if (first.error) throw first.error;
+
+      let data = first.data;
+      while (data.length < (first.count ?? 0)) {
+        const next = await selectTasks(data.length);
+        if (next.error) throw next.error;
+        if (next.data.length === 0) break;
+        data = [...data, ...next.data];
+      }
 
       const tasksWithAssignees = data.map(task => ({
         ...task,
         assignees: task.task_assignments || [],
-        comments_count: task.comments?.length || 0
+        comments_count: task.comments?.length || 0,
+        attachments_count: task.attachments?.length || 0,
+        checklist_total: task.task_checklist_items?.length || 0,
+        checklist_done: task.task_checklist_items?.filter(item => item.is_done).length || 0,
+        labels: task.task_labels?.map(tl => tl.labels).filter(Boolean) || []
       }));
 
       setTasks(tasksWithAssignees);
@@ -146,7 +435,6 @@ const ProjectBoard = () => {
     if (!board) return;
 
     try {
-      const maxPosition = Math.max(...tasks.filter(t => t.status === newTaskStatus).map(t => t.position), -1);
       
       const { error } = await supabase
         .from('tasks')
@@ -155,8 +443,8 @@ const ProjectBoard = () => {
             board_id: board.id,
             title: newTask.title,
             description: newTask.description,
-            status: newTaskStatus as 'todo' | 'in_progress' | 'review' | 'done',
-            position: maxPosition + 1,
+            column_id: newTaskColumnId,
+            position: nextPosition(tasks.filter(t => t.column_id === newTaskColumnId).map(t => t.position)),
             created_by: user!.id
           }
         ]);
@@ -189,45 +477,377 @@ const ProjectBoard = () => {
       return;
     }
 
+    const previousTasks = tasks;
+    const movedTask = tasks.find(t => t.id === draggableId)!;
+    const destinationName = columns.find(c => c.id === destination.droppableId)?.name;
+    const label = source.droppableId === destination.droppableId
+      ? `Reordered "${movedTask.title}"`
+      : `Moved "${movedTask.title}" to ${destinationName}`;
+    // Indexes refer to the visible (possibly filtered) cards
+    const siblings = getTasksByColumn(destination.droppableId).filter(t => t.id !== draggableId);
+    const siblingPositions = siblings.map(t => t.position);
+
     try {
-      const newStatus = destination.droppableId as Task['status'];
-      
-      // Update task status and position
+      if (needsRebalance(siblingPositions, destination.index)) {
+        // The gap is exhausted, so renumber the whole destination column,
+        // including cards hidden by filters
+        const orderedIds = tasks
+          .filter(t => t.column_id === destination.droppableId && t.id !== draggableId)
+          .sort((a, b) => a.position - b.position)
+          .map(t => t.id);
+        const before = siblings[destination.index - 1];
+        orderedIds.splice(orderedIds.indexOf(before.id) + 1, 0, draggableId);
+        const positions = rebalancedPositions(orderedIds.length);
+
+        setTasks(prev => prev.map(t => {
+          const rank = orderedIds.indexOf(t.id);
+          return rank === -1 ? t : { ...t, column_id: destination.droppableId, position: positions[rank] };
+        }));
+
+        const { error } = await supabase.rpc('reorder_column_tasks', {
+          p_column_id: destination.droppableId,
+          p_task_ids: orderedIds
+        });
+
+        if (error) throw error;
+
+        // Renumbering within the source column invalidates the old position, so undo
+        // puts the task back between its former neighbours instead
+        let previousPosition = movedTask.position;
+        if (source.droppableId === destination.droppableId) {
+          const previousOrder = previousTasks
+            .filter(t => t.column_id === source.droppableId)
+            .sort((a, b) => a.position - b.position)
+            .map(t => t.id);
+          const previousIndex = previousOrder.indexOf(draggableId);
+          const positionOf = (id: string | undefined) => id ? positions[orderedIds.indexOf(id)] : null;
+          previousPosition = positionBetween(
+            positionOf(previousOrder[previousIndex - 1]),
+            positionOf(previousOrder[previousIndex + 1])
+          );
+        }
+
+        history.record(taskUpdateCommand(
+          label,
+          draggableId,
+          { column_id: source.droppableId, position: previousPosition },
+          { column_id: destination.droppableId, position: positions[orderedIds.indexOf(draggableId)] }
+        ));
+        return;
+      }
+
+      const position = positionAtIndex(siblingPositions, destination.index);
+
+      // Apply the move locally first so the card stays where it was dropped
+      setTasks(prev => prev.map(t => t.id === draggableId
+        ? { ...t, column_id: destination.droppableId, position }
+        : t
+      ));
+
       const { error } = await supabase
         .from('tasks')
         .update({
-          status: newStatus,
-          position: destination.index
+          column_id: destination.droppableId,
+          position
         })
         .eq('id', draggableId);
 
       if (error) throw error;
 
-      // Refresh tasks
-      await fetchTasks(board.id);
-    } catch (error: any) {
+      history.record(taskUpdateCommand(
+        label,
+        draggableId,
+        { column_id: movedTask.column_id, position: movedTask.position },
+        { column_id: destination.droppableId, position }
+      ));
+    } catch (error) {
+      setTasks(previousTasks);
+      toast({
+        title: 'Error',
+        description: 'Failed to move task',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleStatusChange = async (taskId: string, columnId: string) => {
+    const previousTasks = tasks;
+    const task = tasks.find(t => t.id === taskId)!;
+    // Status changes outside the kanban append the task to the end of its new column
+    const position = nextPosition(tasks.filter(t => t.column_id === columnId && t.id !== taskId).map(t => t.position));
+    setTasks(prev => prev.map(t => t.id === taskId ? { ...t, column_id: columnId, position } : t));
+
+    try {
+      const { error } = await supabase
+        .from('tasks')
+        .update({ column_id: columnId, position })
+        .eq('id', taskId);
+
+      if (error) throw error;
+
+      history.record(taskUpdateCommand(
+        `Moved "${task.title}" to ${columns.find(c => c.id === columnId)?.name}`,
+        taskId,
+        { column_id: task.column_id, position: task.position },
+        { column_id: columnId, position }
+      ));
+    } catch (error) {
+      setTasks(previousTasks);
+      toast({
+        title: 'Error',
+        description: 'Failed to move task',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleRenameTask = async (task: Task, title: string) => {
+    const previousTasks = tasks;
+    setEditingTaskId(null);
+    setTasks(prev => prev.map(t => t.id === task.id ? { ...t, title } : t));
+
+    try {
+      const { error } = await supabase
+        .from('tasks')
+        .update({ title })
+        .eq('id', task.id);
+
+      if (error) throw error;
+
+      history.record(taskUpdateCommand(`Renamed "${task.title}" to "${title}"`, task.id, { title: task.title }, { title }));
+    } catch (error) {
+      setTasks(previousTasks);
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleToggleMyAssignment = async (task: Task) => {
+    const isAssigned = task.assignees?.some(a => a.user_id === user!.id);
+    const command = assignmentCommand(
+      isAssigned ? `Unassigned you from "${task.title}"` : `Assigned you to "${task.title}"`,
+      task.id,
+      user!.id,
+      !isAssigned
+    );
+
+    try {
+      await command.redo();
+      history.record(command);
+      if (board) await fetchTasks(board.id);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleUnarchive = async (taskId: string) => {
+    try {
+      await setTasksArchived([taskId], false);
+      toast({
+        title: 'Success',
+        description: 'Task moved back to the board'
+      });
+      if (board) await fetchTasks(board.id);
+    } catch (error) {
       toast({
         title: 'Error',
-        description: 'Failed to update task',
+        description: (error as Error).message,
         variant: 'destructive'
       });
     }
   };
 
-  const openCreateTaskDialog = (status: string) => {
-    setNewTaskStatus(status);
+  const handleReschedule = async (taskId: string, dueDate: string | null) => {
+    const previousTasks = tasks;
+    setTasks(prev => prev.map(t => t.id === taskId ? { ...t, due_date: dueDate } : t));
+
+    try {
+      const { error } = await supabase
+        .from('tasks')
+        .update({ due_date: dueDate })
+        .eq('id', taskId);
+
+      if (error) throw error;
+    } catch (error) {
+      setTasks(previousTasks);
+      toast({
+        title: 'Error',
+        description: 'Failed to reschedule task',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const openCreateTaskDialog = (columnId: string) => {
+    setNewTaskColumnId(columnId);
     setIsCreateTaskOpen(true);
   };
 
-  const openTaskModal = (task: Task) => {
-    setSelectedTask(task);
-    setIsTaskModalOpen(true);
+  // Linked tasks may live on another board or project; follow them there or explain why not
+  const resolveTaskLink = async (taskId: string) => {
+    const { data, error } = await supabase
+      .from('tasks')
+      .select('id, board_id, deleted_at, boards(project_id)')
+      .eq('id', taskId)
+      .maybeSingle();
+
+    if (error || !data) {
+      setTaskLinkError("This task doesn't exist, or you don't have access to it.");
+      return;
+    }
+    if (data.deleted_at) {
+      setTaskLinkError('This task is in the trash. A project admin can restore it from there.');
+      return;
+    }
+
+    setTaskLinkError(null);
+    if (data.board_id !== board?.id) {
+      navigate(
+        { pathname: `/project/${data.boards.project_id}/board/${data.board_id}`, search: `?task=${taskId}` },
+        { replace: true }
+      );
+    }
+  };
+
+  const setTaskParam = (taskId: string | null, options: { replace?: boolean; state?: unknown } = {}) => {
+    const next = new URLSearchParams(searchParams);
+    if (taskId) {
+      next.set('task', taskId);
+    } else {
+      next.delete('task');
+    }
+    setSearchParams(next, options);
   };
 
-  const getTasksByStatus = (status: string) => {
-    return tasks.filter(task => task.status === status).sort((a, b) => a.position - b.position);
+  const openTaskModal = (taskId: string) => {
+    setTaskParam(taskId, { state: { backOnClose: true } });
   };
 
+  // Cmd/ctrl-click toggles a card, shift-click selects the range from the last toggled card in the same column
+  const handleCardClick = (e: React.MouseEvent, task: Task) => {
+    if (!e.shiftKey && !e.metaKey && !e.ctrlKey) {
+      openTaskModal(task.id);
+      return;
+    }
+
+    const next = new Set(selectedTaskIds);
+    const columnTasks = getTasksByColumn(task.column_id);
+    const anchorIndex = columnTasks.findIndex(t => t.id === selectionAnchorRef.current);
+
+    if (e.shiftKey && anchorIndex !== -1) {
+      const taskIndex = columnTasks.findIndex(t => t.id === task.id);
+      columnTasks
+        .slice(Math.min(anchorIndex, taskIndex), Math.max(anchorIndex, taskIndex) + 1)
+        .forEach(t => next.add(t.id));
+    } else if (next.has(task.id)) {
+      next.delete(task.id);
+    } else {
+      next.add(task.id);
+    }
+
+    selectionAnchorRef.current = task.id;
+    setSelectedTaskIds(next);
+  };
+
+  const clearSelection = () => {
+    selectionAnchorRef.current = null;
+    setSelectedTaskIds(new Set());
+  };
+
+  const closeTaskModal = () => {
+    setTaskLinkError(null);
+    // Step back over the entry that opened the task (a card click here, or My Tasks)
+    // so closing returns to where the user came from
+    if ((location.state as { backOnClose?: boolean } | null)?.backOnClose) {
+      navigate(-1);
+    } else {
+      setTaskParam(null, { replace: true });
+    }
+  };
+
+  // Derived from tasks so the open modal reflects live updates
+  const selectedTask = tasks.find(t => t.id === selectedTaskId) ?? null;
+
+  // Archived tasks are kept loaded so links to them still open, but only the Archived view lists them
+  const activeTasks = tasks.filter(t => !t.archived_at);
+  const filters = readFilters(searchParams);
+  const visibleTasks = filterTasks(activeTasks, filters, user?.id);
+
+  const setFilters = (next: BoardFilters) => {
+    setSearchParams(writeFilters(searchParams, next), { replace: true });
+  };
+
+  const view = BOARD_VIEWS.find(v => v === searchParams.get('view')) ?? 'board';
+
+  const setView = (next: BoardView) => {
+    const search = new URLSearchParams(searchParams);
+    if (next === 'board') {
+      search.delete('view');
+    } else {
+      search.set('view', next);
+    }
+    setSearchParams(search, { replace: true });
+  };
+
+  // Only act on selected tasks that are still on the board and visible
+  const bulkTaskIds = visibleTasks.filter(t => selectedTaskIds.has(t.id)).map(t => t.id);
+
+  const doneColumnIds = new Set(columns.filter(c => c.is_done).map(c => c.id));
+
+  const getTasksByColumn = (columnId: string) => {
+    return visibleTasks.filter(task => task.column_id === columnId).sort((a, b) => a.position - b.position);
+  };
+
+  const openTaskId = selectedTask?.id;
+  useEffect(() => {
+    if (openTaskId) recordVisit('task', openTaskId);
+  }, [openTaskId]);
+
+  const keyboard = useBoardKeyboard({
+    enabled: view === 'board' && !editingTaskId,
+    columns,
+    getColumnTasks: getTasksByColumn,
+    onOpenTask: openTaskModal,
+    onCreateTask: openCreateTaskDialog,
+    onEditTitle: setEditingTaskId,
+    onChangeStatus: handleStatusChange,
+    onShowHelp: () => setIsShortcutsOpen(true)
+  });
+
+  // Board commands for the Cmd+K palette; task commands act on the open task
+  usePaletteCommands([
+    {
+      id: 'keyboard-shortcuts',
+      label: 'Show keyboard shortcuts',
+      icon: Keyboard,
+      onSelect: () => setIsShortcutsOpen(true)
+    },
+    ...columns.map(column => ({
+      id: `create-task:${column.id}`,
+      label: `Create task in ${column.name}`,
+      icon: Plus,
+      onSelect: () => openCreateTaskDialog(column.id)
+    })),
+    ...(selectedTask ? [
+      selectedTask.assignees?.some(a => a.user_id === user?.id)
+        ? { id: 'unassign-me', label: 'Unassign me', icon: UserMinus, onSelect: () => handleToggleMyAssignment(selectedTask) }
+        : { id: 'assign-me', label: 'Assign to me', icon: UserPlus, onSelect: () => handleToggleMyAssignment(selectedTask) },
+      ...columns.filter(c => c.id !== selectedTask.column_id).map(column => ({
+        id: `change-status:${column.id}`,
+        label: `Change status to ${column.name}`,
+        icon: CircleDot,
+        onSelect: () => handleStatusChange(selectedTask.id, column.id)
+      }))
+    ] : [])
+  ]);
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -252,107 +872,204 @@ const ProjectBoard = () => {
               <h1 className="text-2xl font-bold">{project?.name}</h1>
               <p className="text-muted-foreground">{board?.name}</p>
             </div>
+            <div className="ml-auto flex items-center gap-2">
+              <NotificationBell />
+              <Button variant="outline" size="sm" onClick={() => setIsMembersOpen(true)}>
+                <Users className="h-4 w-4 mr-2" />
+                Members
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setIsTrashOpen(true)}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Trash
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => navigate(`/project/${projectId}/settings`)}>
+                <Settings className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          <div className="mt-4">
+            <BoardTabs
+              projectId={projectId!}
+              boards={boards}
+              activeBoardId={board?.id ?? null}
+              onSelectBoard={selectBoard}
+              onBoardsUpdate={refreshBoards}
+              canManage={permissions.canManageBoards}
+            />
           </div>
         </div>
       </header>
 
       <main className="container mx-auto px-4 py-6">
-        <DragDropContext onDragEnd={handleDragEnd}>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-            {STATUS_COLUMNS.map((column) => (
-              <div key={column.id} className={`rounded-lg p-4 ${column.color}`}>
-                <div className="flex justify-between items-center mb-4">
-                  <h3 className="font-semibold text-lg">{column.title}</h3>
-                  <Button
-                    size="sm"
-                    variant="ghost"
-                    onClick={() => openCreateTaskDialog(column.id)}
-                  >
-                    <Plus className="h-4 w-4" />
+        <div className="flex items-start justify-between gap-4">
+          <BoardToolbar
+            filters={filters}
+            onFiltersChange={setFilters}
+            labels={labels}
+            members={members}
+            currentUserId={user?.id}
+            visibleCount={visibleTasks.length}
+            totalCount={activeTasks.length}
+          />
+          <Tabs value={view} onValueChange={(value) => setView(value as BoardView)}>
+            <TabsList>
+              <TabsTrigger value="board">
+                <Columns3 className="h-4 w-4 mr-2" />
+                Board
+              </TabsTrigger>
+              <TabsTrigger value="calendar">
+                <CalendarDays className="h-4 w-4 mr-2" />
+                Calendar
+              </TabsTrigger>
+              <TabsTrigger value="table">
+                <Table2 className="h-4 w-4 mr-2" />
+                Table
+              </TabsTrigger>
+              <TabsTrigger value="archived">
+                <Archive className="h-4 w-4 mr-2" />
+                Archived
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+
+        {view === 'archived' ? (
+          <ArchivedTaskList
+            tasks={filterTasks(tasks.filter(t => t.archived_at), filters, user?.id)}
+            onOpenTask={openTaskModal}
+            onUnarchive={handleUnarchive}
+          />
+        ) : view === 'calendar' ? (
+          <TaskCalendar
+            tasks={visibleTasks}
+            doneColumnIds={doneColumnIds}
+            onOpenTask={openTaskModal}
+            onReschedule={handleReschedule}
+          />
+        ) : view === 'table' ? (
+          <TaskTable
+            tasks={visibleTasks}
+            columns={columns}
+            selectedIds={selectedTaskIds}
+            onSelectedIdsChange={setSelectedTaskIds}
+            onOpenTask={openTaskModal}
+            onStatusChange={handleStatusChange}
+            onReschedule={handleReschedule}
+          />
+        ) : (
+          <DragDropContext onDragEnd={handleDragEnd}>
+            <div className="flex gap-6 overflow-x-auto pb-4">
+              {columns.map((column) => (
+                <div
+                  key={column.id}
+                  className={`w-72 shrink-0 rounded-lg p-4 ${getColor(column.color).background} ${!keyboard.focusedTaskId && keyboard.focusedColumnId === column.id ? 'ring-2 ring-ring' : ''}`}
+                >
+                  <div className="flex justify-between items-center mb-4">
+                    <h3 className="font-semibold text-lg truncate">{column.name}</h3>
+                    <div className="flex items-center">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => openCreateTaskDialog(column.id)}
+                      >
+                        <Plus className="h-4 w-4" />
+                      </Button>
+                      {permissions.canManageBoards && (
+                        <BoardColumnMenu
+                          column={column}
+                          columns={columns}
+                          taskCount={tasks.filter(t => t.column_id === column.id).length}
+                          onColumnsUpdate={refreshColumns}
+                        />
+                      )}
+                    </div>
+                  </div>
+                  
+                  <Droppable droppableId={column.id}>
+                    {(provided) => (
+                      <div
+                        {...provided.droppableProps}
+                        ref={provided.innerRef}
+                        className="space-y-3 min-h-[200px]"
+                      >
+                        {getTasksByColumn(column.id).map((task, index) => (
+                          <Draggable
+                            key={task.id}
+                            draggableId={task.id}
+                            index={index}
+                            isDragDisabled={editingTaskId === task.id}
+                          >
+                            {(provided) => (
+                              <Card
+                                ref={(element) => {
+                                  provided.innerRef(element);
+                                  keyboard.registerCard(task.id)(element);
+                                }}
+                                {...provided.draggableProps}
+                                {...provided.dragHandleProps}
+                                className={`cursor-pointer hover:shadow-md transition-shadow bg-card outline-none focus-visible:ring-2 focus-visible:ring-ring ${selectedTaskIds.has(task.id) ? 'ring-2 ring-primary' : ''}`}
+                                onClick={(e) => handleCardClick(e, task)}
+                                onFocus={(e) => e.target === e.currentTarget && keyboard.focusTask(column.id, task.id)}
+                              >
+                                <TaskCardContent
+                                  task={task}
+                                  progress={getTaskProgress(task, tasks, doneColumnIds)}
+                                  parentTitle={tasks.find(t => t.id === task.parent_task_id)?.title}
+                                  titleEditor={editingTaskId === task.id ? (
+                                    <InlineTitleInput
+                                      title={task.title}
+                                      onSave={(title) => handleRenameTask(task, title)}
+                                      onCancel={() => setEditingTaskId(null)}
+                                    />
+                                  ) : undefined}
+                                />
+                              </Card>
+                            )}
+                          </Draggable>
+                        ))}
+                        {provided.placeholder}
+                      </div>
+                    )}
+                  </Droppable>
+                </div>
+              ))}
+
+              {permissions.canManageBoards && (
+                <div className="w-72 shrink-0">
+                  <Button variant="outline" className="w-full" onClick={() => setIsCreateColumnOpen(true)}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Column
                   </Button>
                 </div>
-                
-                <Droppable droppableId={column.id}>
-                  {(provided) => (
-                    <div
-                      {...provided.droppableProps}
-                      ref={provided.innerRef}
-                      className="space-y-3 min-h-[200px]"
-                    >
-                      {getTasksByStatus(column.id).map((task, index) => (
-                        <Draggable key={task.id} draggableId={task.id} index={index}>
-                          {(provided) => (
-                            <Card
-                              ref={provided.innerRef}
-                              {...provided.draggableProps}
-                              {...provided.dragHandleProps}
-                              className="cursor-pointer hover:shadow-md transition-shadow bg-card"
-                              onClick={() => openTaskModal(task)}
-                            >
-                              <CardContent className="p-4">
-                                <h4 className="font-medium mb-2 line-clamp-2">{task.title}</h4>
-                                
-                                {task.description && (
-                                  <p className="text-sm text-muted-foreground mb-3 line-clamp-2">
-                                    {task.description}
-                                  </p>
-                                )}
-                                
-                                <div className="flex items-center justify-between text-xs text-muted-foreground">
-                                  <div className="flex items-center gap-2">
-                                    {task.due_date && (
-                                      <div className="flex items-center gap-1">
-                                        <Calendar className="h-3 w-3" />
-                                        <span>{new Date(task.due_date).toLocaleDateString()}</span>
-                                      </div>
-                                    )}
-                                    {task.comments_count > 0 && (
-                                      <div className="flex items-center gap-1">
-                                        <MessageSquare className="h-3 w-3" />
-                                        <span>{task.comments_count}</span>
-                                      </div>
-                                    )}
-                                  </div>
-                                  
-                                  {task.assignees && task.assignees.length > 0 && (
-                                    <div className="flex -space-x-1">
-                                      {task.assignees.slice(0, 3).map((assignee, idx) => (
-                                        <Avatar key={idx} className="h-6 w-6">
-                                          <AvatarFallback className="text-xs">
-                                            {assignee.profiles?.display_name?.[0] || 'U'}
-                                          </AvatarFallback>
-                                        </Avatar>
-                                      ))}
-                                      {task.assignees.length > 3 && (
-                                        <div className="h-6 w-6 rounded-full bg-muted flex items-center justify-center text-xs">
-                                          +{task.assignees.length - 3}
-                                        </div>
-                                      )}
-                                    </div>
-                                  )}
-                                </div>
-                              </CardContent>
-                            </Card>
-                          )}
-                        </Draggable>
-                      ))}
-                      {provided.placeholder}
-                    </div>
-                  )}
-                </Droppable>
-              </div>
-            ))}
-          </div>
-        </DragDropContext>
+              )}
+            </div>
+          </DragDropContext>
+        )}
       </main>
 
+      {bulkTaskIds.length > 0 && board && (
+        <BulkActionBar
+          taskIds={bulkTaskIds}
+          columns={columns}
+          members={members}
+          boards={boards}
+          currentBoardId={board.id}
+          canDelete={permissions.canDeleteTasks}
+          onClear={clearSelection}
+          onComplete={() => {
+            clearSelection();
+            fetchTasks(board.id);
+          }}
+        />
+      )}
+
       {/* Create Task Dialog */}
       <Dialog open={isCreateTaskOpen} onOpenChange={setIsCreateTaskOpen}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Create New Task</DialogTitle>
             <DialogDescription>
-              Add a new task to {STATUS_COLUMNS.find(col => col.id === newTaskStatus)?.title}
+              Add a new task to {columns.find(col => col.id === newTaskColumnId)?.name}
             </DialogDescription>
           </DialogHeader>
           <form onSubmit={handleCreateTask} className="space-y-4">
@@ -380,19 +1097,75 @@ const ProjectBoard = () => {
         </DialogContent>
       </Dialog>
 
+      {/* Create Column Dialog */}
+      <Dialog open={isCreateColumnOpen} onOpenChange={setIsCreateColumnOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Column</DialogTitle>
+            <DialogDescription>
+              Add a new stage to this board's workflow
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCreateColumn} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="column-name">Column Name</Label>
+              <Input
+                id="column-name"
+                placeholder="e.g. QA, Blocked, Deployed"
+                value={newColumnName}
+                onChange={(e) => setNewColumnName(e.target.value)}
+                required
+              />
+            </div>
+            <Button type="submit" className="w-full">Add Column</Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <ProjectMembersPanel
+        projectId={projectId!}
+        isOpen={isMembersOpen}
+        onClose={() => setIsMembersOpen(false)}
+      />
+
+      <ProjectTrashPanel
+        projectId={projectId!}
+        isOpen={isTrashOpen}
+        onClose={() => setIsTrashOpen(false)}
+        onRestore={() => board && fetchTasks(board.id)}
+      />
+
+      <KeyboardShortcutsDialog isOpen={isShortcutsOpen} onClose={() => setIsShortcutsOpen(false)} />
+
       {/* Task Detail Modal */}
       {selectedTask && (
         <TaskModal
           task={selectedTask}
-          isOpen={isTaskModalOpen}
-          onClose={() => {
-            setIsTaskModalOpen(false);
-            setSelectedTask(null);
-          }}
+          isOpen
+          onClose={closeTaskModal}
           onTaskUpdate={() => board && fetchTasks(board.id)}
           projectId={projectId!}
+          columns={columns}
+          labels={labels}
+          onLabelsUpdate={fetchLabels}
+          canDeleteTask={permissions.canDeleteTasks}
+          parentTask={tasks.find(t => t.id === selectedTask.parent_task_id) ?? null}
+          subtasks={tasks.filter(t => t.parent_task_id === selectedTask.id).sort((a, b) => a.position - b.position)}
+          onOpenTask={(taskId) => setTaskParam(taskId, { replace: true, state: location.state })}
+          history={history}
         />
       )}
+
+      {/* Task Link Error Dialog */}
+      <Dialog open={!!taskLinkError} onOpenChange={(open) => !open && closeTaskModal()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Task not available</DialogTitle>
+            <DialogDescription>{taskLinkError}</DialogDescription>
+          </DialogHeader>
+          <Button onClick={closeTaskModal}>Back to board</Button>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -0,0 +1,431 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useProjectPermissions } from '@/hooks/use-project-permissions';
+import ProjectLabelsManager from '@/components/ProjectLabelsManager';
+import { ArrowLeft, Archive, ArchiveRestore, LogOut, Trash2, UserCog } from 'lucide-react';
+
+interface Project {
+  id: string;
+  name: string;
+  description: string | null;
+  owner_id: string;
+  archived_at: string | null;
+}
+
+interface ProjectMember {
+  user_id: string;
+  profiles: { display_name: string | null };
+}
+
+const ProjectSettings = () => {
+  const { projectId } = useParams<{ projectId: string }>();
+  const [project, setProject] = useState<Project | null>(null);
+  const [details, setDetails] = useState({ name: '', description: '' });
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [newOwnerId, setNewOwnerId] = useState('');
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [deleteConfirmation, setDeleteConfirmation] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { canEditProject, canManageBoards, role } = useProjectPermissions(projectId);
+
+  useEffect(() => {
+    if (!user || !projectId) {
+      navigate('/auth');
+      return;
+    }
+    fetchProject();
+  }, [user, projectId, navigate]);
+
+  const showError = (error: unknown) => {
+    toast({
+      title: 'Error',
+      description: (error as Error).message,
+      variant: 'destructive'
+    });
+  };
+
+  const fetchProject = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('id, name, description, owner_id, archived_at')
+        .eq('id', projectId)
+        .single();
+
+      if (error) throw error;
+      setProject(data);
+      setDetails({ name: data.name, description: data.description || '' });
+
+      const { data: memberData, error: memberError } = await supabase
+        .from('project_members')
+        .select(`
+          user_id,
+          profiles!fk_project_members_user_id(display_name)
+        `)
+        .eq('project_id', projectId);
+
+      if (memberError) throw memberError;
+      setMembers(memberData || []);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load project settings',
+        variant: 'destructive'
+      });
+      navigate('/dashboard');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveDetails = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from('projects')
+        .update({
+          name: details.name.trim(),
+          description: details.description.trim() || null
+        })
+        .eq('id', projectId);
+
+      if (error) throw error;
+
+      setProject(prev => prev && { ...prev, name: details.name.trim(), description: details.description.trim() || null });
+      toast({
+        title: 'Success',
+        description: 'Project details saved'
+      });
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTransferOwnership = async () => {
+    setIsTransferOpen(false);
+
+    try {
+      const { error } = await supabase.rpc('transfer_project_ownership', {
+        p_project_id: projectId!,
+        p_new_owner_id: newOwnerId
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Success',
+        description: 'Ownership transferred. You are now an admin of this project.'
+      });
+      navigate(`/project/${projectId}`);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleToggleArchive = async () => {
+    const archivedAt = project?.archived_at ? null : new Date().toISOString();
+
+    try {
+      const { error } = await supabase
+        .from('projects')
+        .update({ archived_at: archivedAt })
+        .eq('id', projectId);
+
+      if (error) throw error;
+
+      setProject(prev => prev && { ...prev, archived_at: archivedAt });
+      toast({
+        title: 'Success',
+        description: archivedAt ? 'Project archived' : 'Project restored'
+      });
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleDeleteProject = async () => {
+    try {
+      const { error } = await supabase
+        .from('projects')
+        .delete()
+        .eq('id', projectId);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Success',
+        description: `Project "${project?.name}" deleted`
+      });
+      navigate('/dashboard');
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleLeaveProject = async () => {
+    try {
+      const { error } = await supabase
+        .from('project_members')
+        .delete()
+        .eq('project_id', projectId)
+        .eq('user_id', user!.id);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Success',
+        description: `You left "${project?.name}"`
+      });
+      navigate('/dashboard');
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading settings...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const transferCandidates = members.filter(m => m.user_id !== project?.owner_id);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" onClick={() => navigate(`/project/${projectId}`)}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Board
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold">{project?.name}</h1>
+              <p className="text-muted-foreground">Project settings</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-2xl space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>General</CardTitle>
+            <CardDescription>
+              {canEditProject ? 'Update the project name and description' : 'Only the project owner can change these details'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSaveDetails} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="project-name">Project Name</Label>
+                <Input
+                  id="project-name"
+                  value={details.name}
+                  onChange={(e) => setDetails({ ...details, name: e.target.value })}
+                  disabled={!canEditProject}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="project-description">Description</Label>
+                <Textarea
+                  id="project-description"
+                  value={details.description}
+                  onChange={(e) => setDetails({ ...details, description: e.target.value })}
+                  disabled={!canEditProject}
+                />
+              </div>
+              {canEditProject && (
+                <Button type="submit" disabled={isSaving}>Save Changes</Button>
+              )}
+            </form>
+          </CardContent>
+        </Card>
+
+        {canManageBoards && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Labels</CardTitle>
+              <CardDescription>Rename, recolor or remove the labels used on this project's tasks</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ProjectLabelsManager projectId={projectId!} />
+            </CardContent>
+          </Card>
+        )}
+
+        {canEditProject && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>Transfer ownership</CardTitle>
+                <CardDescription>
+                  Make another member the owner. You will stay on the project as an admin.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="flex gap-2">
+                <Select value={newOwnerId} onValueChange={setNewOwnerId}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder={transferCandidates.length ? 'Choose a member' : 'No other members yet'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {transferCandidates.map((member) => (
+                      <SelectItem key={member.user_id} value={member.user_id}>
+                        {member.profiles?.display_name || 'Unknown User'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" disabled={!newOwnerId} onClick={() => setIsTransferOpen(true)}>
+                  <UserCog className="h-4 w-4 mr-2" />
+                  Transfer
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>{project?.archived_at ? 'Restore project' : 'Archive project'}</CardTitle>
+                <CardDescription>
+                  {project?.archived_at
+                    ? 'This project is archived and hidden from the dashboard.'
+                    : 'Hide this project from the dashboard. Nothing is deleted and it can be restored later.'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Button variant="outline" onClick={handleToggleArchive}>
+                  {project?.archived_at ? (
+                    <>
+                      <ArchiveRestore className="h-4 w-4 mr-2" />
+                      Restore Project
+                    </>
+                  ) : (
+                    <>
+                      <Archive className="h-4 w-4 mr-2" />
+                      Archive Project
+                    </>
+                  )}
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card className="border-destructive">
+              <CardHeader>
+                <CardTitle className="text-destructive">Delete project</CardTitle>
+                <CardDescription>
+                  Permanently delete this project with all of its boards, tasks and comments. This cannot be undone.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Button variant="destructive" onClick={() => setIsDeleteOpen(true)}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete Project
+                </Button>
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        {role && role !== 'owner' && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Leave project</CardTitle>
+              <CardDescription>You will lose access until someone invites you again.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button variant="outline" onClick={handleLeaveProject}>
+                <LogOut className="h-4 w-4 mr-2" />
+                Leave Project
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+
+      {/* Transfer Ownership Confirmation */}
+      <AlertDialog open={isTransferOpen} onOpenChange={setIsTransferOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Transfer ownership?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {members.find(m => m.user_id === newOwnerId)?.profiles?.display_name || 'This member'} will become the owner
+              of "{project?.name}" and you will become an admin.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleTransferOwnership}>Transfer</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Delete Project Confirmation */}
+      <AlertDialog
+        open={isDeleteOpen}
+        onOpenChange={(open) => {
+          setIsDeleteOpen(open);
+          setDeleteConfirmation('');
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{project?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Type the project name to confirm. All boards, tasks and comments will be lost.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Input
+            value={deleteConfirmation}
+            onChange={(e) => setDeleteConfirmation(e.target.value)}
+            placeholder={project?.name}
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDeleteProject}
+              disabled={deleteConfirmation !== project?.name}
+            >
+              Delete Project
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ProjectSettings;
@@ -0,0 +1,74 @@
+// Emails a project invitation link to the invitee.
+//
+// Requires these secrets:
+// - RESEND_API_KEY: key for the Resend email API
+// - INVITE_EMAIL_FROM: sender address, e.g. "Team <invites@example.com>"
+// - SITE_URL: public origin of the app, used to build the invite link
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { invitationId } = await req.json();
+
+    // Query as the caller: RLS only shows invitations to the project's owners and admins
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } }
+    });
+
+    const { data: invitation, error } = await supabase
+      .from('project_invitations')
+      .select('email, token, expires_at, accepted_at, project:projects(name)')
+      .eq('id', invitationId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!invitation) return json({ error: 'Invitation not found' }, 404);
+    if (invitation.accepted_at) return json({ error: 'This invitation has already been accepted' }, 400);
+
+    const projectName = escapeHtml(invitation.project?.name ?? 'a project');
+    const link = `${Deno.env.get('SITE_URL')}/invite/${invitation.token}`;
+    const expiresOn = new Date(invitation.expires_at).toDateString();
+
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${Deno.env.get('RESEND_API_KEY')}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        from: Deno.env.get('INVITE_EMAIL_FROM'),
+        to: invitation.email,
+        subject: `You've been invited to ${invitation.project?.name ?? 'a project'}`,
+        html: `<p>You've been invited to join <strong>${projectName}</strong>.</p>
+<p><a href="${link}">Accept the invitation</a></p>
+<p>The link expires on ${expiresOn}.</p>`
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`The email could not be sent (${response.status})`);
+    }
+
+    return json({ sent: true });
+  } catch (error) {
+    return json({ error: (error as Error).message }, 500);
+  }
+});
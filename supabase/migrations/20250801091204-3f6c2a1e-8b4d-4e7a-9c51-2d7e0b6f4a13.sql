@@ -0,0 +1,6 @@
+-- Allow boards to be archived without deleting their tasks
+ALTER TABLE public.boards
+ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+
+-- Speed up loading the ordered board list for a project
+CREATE INDEX idx_boards_project_id_position ON public.boards (project_id, position);
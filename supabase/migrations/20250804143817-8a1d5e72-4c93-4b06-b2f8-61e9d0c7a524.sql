@@ -0,0 +1,107 @@
+-- Create board_columns table for per-board workflow stages
+CREATE TABLE public.board_columns (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  board_id UUID NOT NULL REFERENCES public.boards(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  color TEXT NOT NULL DEFAULT 'slate',
+  position INTEGER NOT NULL DEFAULT 0,
+  is_done BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_board_columns_board_id_position ON public.board_columns (board_id, position);
+
+ALTER TABLE public.board_columns ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for board_columns
+CREATE POLICY "Users can view board columns for their projects" ON public.board_columns FOR SELECT USING (
+  auth.uid() IN (
+    SELECT pm.user_id FROM public.project_members pm
+    JOIN public.boards b ON b.project_id = pm.project_id
+    WHERE b.id = board_columns.board_id
+  )
+);
+CREATE POLICY "Project members can manage board columns" ON public.board_columns FOR ALL USING (
+  auth.uid() IN (
+    SELECT pm.user_id FROM public.project_members pm
+    JOIN public.boards b ON b.project_id = pm.project_id
+    WHERE b.id = board_columns.board_id
+  )
+);
+
+CREATE TRIGGER update_board_columns_updated_at
+  BEFORE UPDATE ON public.board_columns
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Seed the previous fixed workflow for every existing board
+INSERT INTO public.board_columns (board_id, name, color, position, is_done)
+SELECT b.id, d.name, d.color, d.position, d.is_done
+FROM public.boards b
+CROSS JOIN (
+  VALUES
+    ('To Do', 'slate', 0, false),
+    ('In Progress', 'blue', 1, false),
+    ('Review', 'yellow', 2, false),
+    ('Done', 'green', 3, true)
+) AS d(name, color, position, is_done);
+
+-- Point tasks at a column instead of the task_status enum
+ALTER TABLE public.tasks
+ADD COLUMN column_id UUID REFERENCES public.board_columns(id) ON DELETE RESTRICT;
+
+UPDATE public.tasks t
+SET column_id = c.id
+FROM public.board_columns c
+WHERE c.board_id = t.board_id
+  AND c.position = CASE t.status
+    WHEN 'todo' THEN 0
+    WHEN 'in_progress' THEN 1
+    WHEN 'review' THEN 2
+    ELSE 3
+  END;
+
+ALTER TABLE public.tasks ALTER COLUMN column_id SET NOT NULL;
+ALTER TABLE public.tasks DROP COLUMN status;
+DROP TYPE public.task_status;
+
+CREATE INDEX idx_tasks_column_id ON public.tasks (column_id);
+
+-- Make sure a task's column belongs to the task's board
+CREATE OR REPLACE FUNCTION public.ensure_task_column_matches_board()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.board_columns
+    WHERE id = NEW.column_id AND board_id = NEW.board_id
+  ) THEN
+    RAISE EXCEPTION 'Column % does not belong to board %', NEW.column_id, NEW.board_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER ensure_task_column_matches_board
+  BEFORE INSERT OR UPDATE OF column_id, board_id ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.ensure_task_column_matches_board();
+
+-- Give every new board the default workflow
+CREATE OR REPLACE FUNCTION public.create_default_board_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.board_columns (board_id, name, color, position, is_done)
+  VALUES
+    (NEW.id, 'To Do', 'slate', 0, false),
+    (NEW.id, 'In Progress', 'blue', 1, false),
+    (NEW.id, 'Review', 'yellow', 2, false),
+    (NEW.id, 'Done', 'green', 3, true);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER create_board_default_columns
+  AFTER INSERT ON public.boards
+  FOR EACH ROW
+  EXECUTE FUNCTION public.create_default_board_columns();
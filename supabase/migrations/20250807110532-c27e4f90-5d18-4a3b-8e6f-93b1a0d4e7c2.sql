@@ -0,0 +1,9 @@
+-- Include the full old row in change events so deletes can be matched to their task
+ALTER TABLE public.tasks REPLICA IDENTITY FULL;
+ALTER TABLE public.task_assignments REPLICA IDENTITY FULL;
+ALTER TABLE public.comments REPLICA IDENTITY FULL;
+
+-- Broadcast board changes to subscribed clients
+ALTER PUBLICATION supabase_realtime ADD TABLE public.tasks;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.task_assignments;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.comments;
@@ -0,0 +1,25 @@
+-- Store task order as fractional ranks so a move only rewrites the moved task
+ALTER TABLE public.tasks ALTER COLUMN position TYPE DOUBLE PRECISION;
+
+-- Spread out existing positions, which contain duplicates from earlier drags
+UPDATE public.tasks t
+SET position = ranked.rank * 1024
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY column_id ORDER BY position, created_at) AS rank
+  FROM public.tasks
+) ranked
+WHERE ranked.id = t.id;
+
+CREATE INDEX idx_tasks_column_id_position ON public.tasks (column_id, position);
+
+-- Renumber a column in one transaction once fractional positions run out of precision
+CREATE OR REPLACE FUNCTION public.reorder_column_tasks(p_column_id UUID, p_task_ids UUID[])
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.tasks t
+  SET column_id = p_column_id,
+      position = ordered.rank * 1024
+  FROM unnest(p_task_ids) WITH ORDINALITY AS ordered(id, rank)
+  WHERE t.id = ordered.id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
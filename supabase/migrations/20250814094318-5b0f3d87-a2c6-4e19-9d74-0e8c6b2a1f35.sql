@@ -0,0 +1,102 @@
+-- Create project_invitations table for inviting people by email
+CREATE TABLE public.project_invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role public.project_role NOT NULL DEFAULT 'member',
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  invited_by UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + interval '7 days',
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (role <> 'owner')
+);
+
+-- Only one open invitation per email and project
+CREATE UNIQUE INDEX idx_project_invitations_pending_email
+  ON public.project_invitations (project_id, lower(email))
+  WHERE accepted_at IS NULL;
+
+ALTER TABLE public.project_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for project_invitations
+CREATE POLICY "Project admins can view invitations" ON public.project_invitations FOR SELECT USING (
+  auth.uid() IN (
+    SELECT user_id FROM public.project_members
+    WHERE project_id = project_invitations.project_id AND role IN ('owner', 'admin')
+  )
+);
+CREATE POLICY "Project admins can create invitations" ON public.project_invitations FOR INSERT WITH CHECK (
+  auth.uid() IN (
+    SELECT user_id FROM public.project_members
+    WHERE project_id = project_invitations.project_id AND role IN ('owner', 'admin')
+  ) AND auth.uid() = invited_by
+);
+CREATE POLICY "Project admins can update invitations" ON public.project_invitations FOR UPDATE USING (
+  auth.uid() IN (
+    SELECT user_id FROM public.project_members
+    WHERE project_id = project_invitations.project_id AND role IN ('owner', 'admin')
+  )
+);
+CREATE POLICY "Project admins can delete invitations" ON public.project_invitations FOR DELETE USING (
+  auth.uid() IN (
+    SELECT user_id FROM public.project_members
+    WHERE project_id = project_invitations.project_id AND role IN ('owner', 'admin')
+  )
+);
+
+-- Let an invitee preview an invitation before they are a member
+CREATE OR REPLACE FUNCTION public.get_project_invitation(p_token TEXT)
+RETURNS TABLE (
+  project_id UUID,
+  project_name TEXT,
+  email TEXT,
+  role public.project_role,
+  inviter_name TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  accepted_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT i.project_id, p.name, i.email, i.role, pr.display_name, i.expires_at, i.accepted_at
+  FROM public.project_invitations i
+  JOIN public.projects p ON p.id = i.project_id
+  LEFT JOIN public.profiles pr ON pr.user_id = i.invited_by
+  WHERE i.token = p_token;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Join the signed-in user to the project the invitation is for
+CREATE OR REPLACE FUNCTION public.accept_project_invitation(p_token TEXT)
+RETURNS UUID AS $$
+DECLARE
+  invitation public.project_invitations%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to accept an invitation';
+  END IF;
+
+  SELECT * INTO invitation FROM public.project_invitations WHERE token = p_token FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+  IF invitation.accepted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Invitation has already been used';
+  END IF;
+  IF invitation.expires_at < now() THEN
+    RAISE EXCEPTION 'Invitation has expired';
+  END IF;
+  IF lower(invitation.email) <> lower(auth.jwt() ->> 'email') THEN
+    RAISE EXCEPTION 'This invitation was sent to a different email address';
+  END IF;
+
+  INSERT INTO public.project_members (project_id, user_id, role)
+  VALUES (invitation.project_id, auth.uid(), invitation.role)
+  ON CONFLICT (project_id, user_id) DO NOTHING;
+
+  UPDATE public.project_invitations SET accepted_at = now() WHERE id = invitation.id;
+
+  RETURN invitation.project_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,86 @@
+-- Permission matrix
+--   view, create and edit tasks, assign, comment: owner, admin, member
+--   delete tasks:                                  owner, admin
+--   manage boards and board columns:               owner, admin
+--   manage members and invitations:                owner, admin
+--   edit project settings:                         owner
+
+-- Helper functions run as definer so policies on project_members don't recurse
+CREATE OR REPLACE FUNCTION public.get_project_role(p_project_id UUID)
+RETURNS public.project_role AS $$
+  SELECT role FROM public.project_members
+  WHERE project_id = p_project_id AND user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.is_project_member(p_project_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT public.get_project_role(p_project_id) IS NOT NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.has_project_role(p_project_id UUID, p_roles public.project_role[])
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(public.get_project_role(p_project_id) = ANY(p_roles), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.get_board_project_id(p_board_id UUID)
+RETURNS UUID AS $$
+  SELECT project_id FROM public.boards WHERE id = p_board_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- project_members
+DROP POLICY "Users can view project members for their projects" ON public.project_members;
+CREATE POLICY "Users can view project members for their projects" ON public.project_members FOR SELECT USING (
+  public.is_project_member(project_id)
+);
+CREATE POLICY "Project admins can add members" ON public.project_members FOR INSERT WITH CHECK (
+  public.has_project_role(project_id, ARRAY['owner', 'admin']::public.project_role[]) AND role <> 'owner'
+);
+CREATE POLICY "Project admins can change member roles" ON public.project_members FOR UPDATE USING (
+  public.has_project_role(project_id, ARRAY['owner', 'admin']::public.project_role[]) AND role <> 'owner'
+) WITH CHECK (
+  role <> 'owner'
+);
+CREATE POLICY "Project admins can remove members" ON public.project_members FOR DELETE USING (
+  public.has_project_role(project_id, ARRAY['owner', 'admin']::public.project_role[]) AND role <> 'owner'
+);
+CREATE POLICY "Members can leave projects" ON public.project_members FOR DELETE USING (
+  auth.uid() = user_id AND role <> 'owner'
+);
+
+-- boards
+DROP POLICY "Users can view boards for their projects" ON public.boards;
+DROP POLICY "Project members can manage boards" ON public.boards;
+CREATE POLICY "Users can view boards for their projects" ON public.boards FOR SELECT USING (
+  public.is_project_member(project_id)
+);
+CREATE POLICY "Project admins can manage boards" ON public.boards FOR ALL USING (
+  public.has_project_role(project_id, ARRAY['owner', 'admin']::public.project_role[])
+);
+
+-- board_columns
+DROP POLICY "Users can view board columns for their projects" ON public.board_columns;
+DROP POLICY "Project members can manage board columns" ON public.board_columns;
+CREATE POLICY "Users can view board columns for their projects" ON public.board_columns FOR SELECT USING (
+  public.is_project_member(public.get_board_project_id(board_id))
+);
+CREATE POLICY "Project admins can manage board columns" ON public.board_columns FOR ALL USING (
+  public.has_project_role(public.get_board_project_id(board_id), ARRAY['owner', 'admin']::public.project_role[])
+);
+
+-- tasks
+DROP POLICY "Users can view tasks for their projects" ON public.tasks;
+DROP POLICY "Project members can manage tasks" ON public.tasks;
+CREATE POLICY "Users can view tasks for their projects" ON public.tasks FOR SELECT USING (
+  public.is_project_member(public.get_board_project_id(board_id))
+);
+CREATE POLICY "Project members can create tasks" ON public.tasks FOR INSERT WITH CHECK (
+  public.is_project_member(public.get_board_project_id(board_id)) AND auth.uid() = created_by
+);
+CREATE POLICY "Project members can update tasks" ON public.tasks FOR UPDATE USING (
+  public.is_project_member(public.get_board_project_id(board_id))
+) WITH CHECK (
+  public.is_project_member(public.get_board_project_id(board_id))
+);
+CREATE POLICY "Project admins can delete tasks" ON public.tasks FOR DELETE USING (
+  public.has_project_role(public.get_board_project_id(board_id), ARRAY['owner', 'admin']::public.project_role[])
+);
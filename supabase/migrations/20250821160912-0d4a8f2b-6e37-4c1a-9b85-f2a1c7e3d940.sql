@@ -0,0 +1,31 @@
+-- Allow projects to be archived out of the dashboard without deleting them
+ALTER TABLE public.projects
+ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+
+-- Hand a project over to another member, updating owner_id and roles together
+CREATE OR REPLACE FUNCTION public.transfer_project_ownership(p_project_id UUID, p_new_owner_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.projects WHERE id = p_project_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the project owner can transfer ownership';
+  END IF;
+
+  IF p_new_owner_id = auth.uid() THEN
+    RAISE EXCEPTION 'You already own this project';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.project_members WHERE project_id = p_project_id AND user_id = p_new_owner_id
+  ) THEN
+    RAISE EXCEPTION 'The new owner must be a member of the project';
+  END IF;
+
+  UPDATE public.projects SET owner_id = p_new_owner_id WHERE id = p_project_id;
+
+  UPDATE public.project_members
+  SET role = CASE WHEN user_id = p_new_owner_id THEN 'owner'::public.project_role ELSE 'admin'::public.project_role END
+  WHERE project_id = p_project_id AND user_id IN (auth.uid(), p_new_owner_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,61 @@
+-- Create enum for task priority
+CREATE TYPE public.task_priority AS ENUM ('urgent', 'high', 'medium', 'low');
+
+-- Add priority and estimate fields to tasks
+ALTER TABLE public.tasks
+ADD COLUMN priority public.task_priority,
+ADD COLUMN story_points NUMERIC(5, 1) CHECK (story_points >= 0);
+
+-- Create labels table for per-project colored labels
+CREATE TABLE public.labels (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  color TEXT NOT NULL DEFAULT 'slate',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_labels_project_id_name ON public.labels (project_id, lower(name));
+
+-- Create task_labels join table
+CREATE TABLE public.task_labels (
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  label_id UUID NOT NULL REFERENCES public.labels(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (task_id, label_id)
+);
+
+CREATE INDEX idx_task_labels_label_id ON public.task_labels (label_id);
+
+ALTER TABLE public.labels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.task_labels ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for labels
+CREATE POLICY "Users can view labels for their projects" ON public.labels FOR SELECT USING (
+  public.is_project_member(project_id)
+);
+CREATE POLICY "Project members can create labels" ON public.labels FOR INSERT WITH CHECK (
+  public.is_project_member(project_id)
+);
+CREATE POLICY "Project admins can update labels" ON public.labels FOR UPDATE USING (
+  public.has_project_role(project_id, ARRAY['owner', 'admin']::public.project_role[])
+);
+CREATE POLICY "Project admins can delete labels" ON public.labels FOR DELETE USING (
+  public.has_project_role(project_id, ARRAY['owner', 'admin']::public.project_role[])
+);
+
+-- Create RLS policies for task_labels
+CREATE POLICY "Users can view task labels for their projects" ON public.task_labels FOR SELECT USING (
+  public.is_project_member(
+    public.get_board_project_id((SELECT board_id FROM public.tasks WHERE id = task_labels.task_id))
+  )
+);
+CREATE POLICY "Project members can manage task labels" ON public.task_labels FOR ALL USING (
+  public.is_project_member(
+    public.get_board_project_id((SELECT board_id FROM public.tasks WHERE id = task_labels.task_id))
+  )
+) WITH CHECK (
+  -- Labels can only be applied to tasks in the label's own project
+  (SELECT project_id FROM public.labels WHERE id = task_labels.label_id) =
+  public.get_board_project_id((SELECT board_id FROM public.tasks WHERE id = task_labels.task_id))
+);
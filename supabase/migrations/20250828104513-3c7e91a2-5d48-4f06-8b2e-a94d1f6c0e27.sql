@@ -0,0 +1,78 @@
+-- Subtasks are ordinary tasks that point at a parent on the same board
+ALTER TABLE public.tasks
+ADD COLUMN parent_task_id UUID REFERENCES public.tasks(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_tasks_parent_task_id ON public.tasks (parent_task_id);
+
+-- Keep subtasks one level deep and on their parent's board
+CREATE OR REPLACE FUNCTION public.ensure_parent_task_matches_board()
+RETURNS TRIGGER AS $$
+DECLARE
+  parent public.tasks%ROWTYPE;
+BEGIN
+  IF NEW.parent_task_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.parent_task_id = NEW.id THEN
+    RAISE EXCEPTION 'A task cannot be its own subtask';
+  END IF;
+
+  SELECT * INTO parent FROM public.tasks WHERE id = NEW.parent_task_id;
+
+  IF parent.board_id IS DISTINCT FROM NEW.board_id THEN
+    RAISE EXCEPTION 'Subtask must be on the same board as its parent task';
+  END IF;
+
+  IF parent.parent_task_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Subtasks cannot have subtasks of their own';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.tasks WHERE parent_task_id = NEW.id) THEN
+    RAISE EXCEPTION 'A task with subtasks cannot become a subtask';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER ensure_parent_task_matches_board
+  BEFORE INSERT OR UPDATE OF parent_task_id, board_id ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.ensure_parent_task_matches_board();
+
+-- Create checklist items table
+CREATE TABLE public.task_checklist_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  is_done BOOLEAN NOT NULL DEFAULT false,
+  position DOUBLE PRECISION NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_task_checklist_items_task_id ON public.task_checklist_items (task_id, position);
+
+ALTER TABLE public.task_checklist_items ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for checklist items
+CREATE POLICY "Users can view checklist items for their projects" ON public.task_checklist_items FOR SELECT USING (
+  public.is_project_member(
+    public.get_board_project_id((SELECT board_id FROM public.tasks WHERE id = task_checklist_items.task_id))
+  )
+);
+CREATE POLICY "Project members can manage checklist items" ON public.task_checklist_items FOR ALL USING (
+  public.is_project_member(
+    public.get_board_project_id((SELECT board_id FROM public.tasks WHERE id = task_checklist_items.task_id))
+  )
+) WITH CHECK (
+  public.is_project_member(
+    public.get_board_project_id((SELECT board_id FROM public.tasks WHERE id = task_checklist_items.task_id))
+  )
+);
+
+CREATE TRIGGER update_task_checklist_items_updated_at
+  BEFORE UPDATE ON public.task_checklist_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
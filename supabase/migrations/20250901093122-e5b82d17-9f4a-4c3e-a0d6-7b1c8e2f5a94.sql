@@ -0,0 +1,147 @@
+-- Create task activity table; rows are written by triggers only
+CREATE TABLE public.task_activity (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  actor_id UUID,
+  field TEXT NOT NULL,
+  old_value TEXT,
+  new_value TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.task_activity
+ADD CONSTRAINT fk_task_activity_actor_id
+FOREIGN KEY (actor_id) REFERENCES public.profiles(user_id) ON DELETE SET NULL;
+
+CREATE INDEX idx_task_activity_task_id ON public.task_activity (task_id, created_at);
+
+ALTER TABLE public.task_activity ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view activity for their projects" ON public.task_activity FOR SELECT USING (
+  public.is_project_member(
+    public.get_board_project_id((SELECT board_id FROM public.tasks WHERE id = task_activity.task_id))
+  )
+);
+
+ALTER TABLE public.task_activity REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.task_activity;
+
+-- Record a single field change
+CREATE OR REPLACE FUNCTION public.log_task_activity(
+  p_task_id UUID,
+  p_field TEXT,
+  p_old_value TEXT,
+  p_new_value TEXT
+)
+RETURNS VOID AS $$
+BEGIN
+  -- Rows removed by a cascading task delete have nothing left to attach to
+  IF NOT EXISTS (SELECT 1 FROM public.tasks WHERE id = p_task_id) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.task_activity (task_id, actor_id, field, old_value, new_value)
+  VALUES (p_task_id, auth.uid(), p_field, p_old_value, p_new_value);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the triggers below may write history
+REVOKE EXECUTE ON FUNCTION public.log_task_activity(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Track creation and edits of the fields shown in the task modal
+CREATE OR REPLACE FUNCTION public.track_task_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.log_task_activity(NEW.id, 'created', NULL, NEW.title);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.title IS DISTINCT FROM OLD.title THEN
+    PERFORM public.log_task_activity(NEW.id, 'title', OLD.title, NEW.title);
+  END IF;
+
+  IF NEW.description IS DISTINCT FROM OLD.description THEN
+    PERFORM public.log_task_activity(NEW.id, 'description', OLD.description, NEW.description);
+  END IF;
+
+  -- Store column names so the history still reads well after columns are renamed or removed
+  IF NEW.column_id IS DISTINCT FROM OLD.column_id THEN
+    PERFORM public.log_task_activity(
+      NEW.id,
+      'status',
+      (SELECT name FROM public.board_columns WHERE id = OLD.column_id),
+      (SELECT name FROM public.board_columns WHERE id = NEW.column_id)
+    );
+  END IF;
+
+  IF NEW.due_date IS DISTINCT FROM OLD.due_date THEN
+    PERFORM public.log_task_activity(NEW.id, 'due_date', OLD.due_date::TEXT, NEW.due_date::TEXT);
+  END IF;
+
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    PERFORM public.log_task_activity(NEW.id, 'priority', OLD.priority::TEXT, NEW.priority::TEXT);
+  END IF;
+
+  IF NEW.story_points IS DISTINCT FROM OLD.story_points THEN
+    PERFORM public.log_task_activity(NEW.id, 'story_points', OLD.story_points::TEXT, NEW.story_points::TEXT);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER track_task_changes
+  AFTER INSERT OR UPDATE ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_task_changes();
+
+-- Track assignees by display name
+CREATE OR REPLACE FUNCTION public.track_task_assignment_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.log_task_activity(
+      NEW.task_id,
+      'assignee',
+      NULL,
+      (SELECT display_name FROM public.profiles WHERE user_id = NEW.user_id)
+    );
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.log_task_activity(
+    OLD.task_id,
+    'assignee',
+    (SELECT display_name FROM public.profiles WHERE user_id = OLD.user_id),
+    NULL
+  );
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER track_task_assignment_changes
+  AFTER INSERT OR DELETE ON public.task_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_task_assignment_changes();
+
+-- New comments already appear in the history, so only edits and deletions are recorded
+CREATE OR REPLACE FUNCTION public.track_comment_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.content IS DISTINCT FROM OLD.content THEN
+      PERFORM public.log_task_activity(NEW.task_id, 'comment', OLD.content, NEW.content);
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.log_task_activity(OLD.task_id, 'comment', OLD.content, NULL);
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER track_comment_changes
+  AFTER UPDATE OR DELETE ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_comment_changes();
@@ -0,0 +1,70 @@
+-- Create attachments table; file contents live in the task-attachments bucket
+CREATE TABLE public.attachments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  uploaded_by UUID NOT NULL,
+  file_name TEXT NOT NULL,
+  file_path TEXT NOT NULL UNIQUE,
+  content_type TEXT,
+  size_bytes BIGINT NOT NULL CHECK (size_bytes >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.attachments
+ADD CONSTRAINT fk_attachments_uploaded_by
+FOREIGN KEY (uploaded_by) REFERENCES public.profiles(user_id) ON DELETE CASCADE;
+
+CREATE INDEX idx_attachments_task_id ON public.attachments (task_id);
+
+ALTER TABLE public.attachments ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for attachments
+CREATE POLICY "Users can view attachments for their projects" ON public.attachments FOR SELECT USING (
+  public.is_project_member(
+    public.get_board_project_id((SELECT board_id FROM public.tasks WHERE id = attachments.task_id))
+  )
+);
+CREATE POLICY "Project members can add attachments" ON public.attachments FOR INSERT WITH CHECK (
+  auth.uid() = uploaded_by AND
+  public.is_project_member(
+    public.get_board_project_id((SELECT board_id FROM public.tasks WHERE id = attachments.task_id))
+  )
+);
+CREATE POLICY "Uploaders and project admins can delete attachments" ON public.attachments FOR DELETE USING (
+  auth.uid() = uploaded_by OR
+  public.has_project_role(
+    public.get_board_project_id((SELECT board_id FROM public.tasks WHERE id = attachments.task_id)),
+    ARRAY['owner', 'admin']::public.project_role[]
+  )
+);
+
+-- Private bucket with a 50 MB limit per file
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('task-attachments', 'task-attachments', false, 52428800)
+ON CONFLICT (id) DO NOTHING;
+
+-- Objects are stored as <project_id>/<task_id>/<file>, so the first folder decides access
+CREATE OR REPLACE FUNCTION public.get_attachment_project_id(p_object_name TEXT)
+RETURNS UUID AS $$
+BEGIN
+  RETURN ((storage.foldername(p_object_name))[1])::UUID;
+EXCEPTION
+  WHEN invalid_text_representation THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+CREATE POLICY "Project members can read task attachments" ON storage.objects FOR SELECT USING (
+  bucket_id = 'task-attachments' AND
+  public.is_project_member(public.get_attachment_project_id(name))
+);
+CREATE POLICY "Project members can upload task attachments" ON storage.objects FOR INSERT WITH CHECK (
+  bucket_id = 'task-attachments' AND
+  public.is_project_member(public.get_attachment_project_id(name))
+);
+CREATE POLICY "Uploaders and project admins can delete task attachments" ON storage.objects FOR DELETE USING (
+  bucket_id = 'task-attachments' AND (
+    owner = auth.uid() OR
+    public.has_project_role(public.get_attachment_project_id(name), ARRAY['owner', 'admin']::public.project_role[])
+  )
+);
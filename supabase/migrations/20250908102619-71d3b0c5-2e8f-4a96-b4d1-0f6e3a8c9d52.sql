@@ -0,0 +1,42 @@
+-- Replies point at a top-level comment on the same task
+ALTER TABLE public.comments
+ADD COLUMN parent_comment_id UUID REFERENCES public.comments(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_comments_parent_comment_id ON public.comments (parent_comment_id);
+
+-- Keep threads one level deep and on a single task
+CREATE OR REPLACE FUNCTION public.ensure_comment_thread_is_valid()
+RETURNS TRIGGER AS $$
+DECLARE
+  parent public.comments%ROWTYPE;
+BEGIN
+  IF NEW.parent_comment_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO parent FROM public.comments WHERE id = NEW.parent_comment_id;
+
+  IF parent.task_id IS DISTINCT FROM NEW.task_id THEN
+    RAISE EXCEPTION 'Replies must be on the same task as the comment they answer';
+  END IF;
+
+  IF parent.parent_comment_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Replies cannot be nested';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER ensure_comment_thread_is_valid
+  BEFORE INSERT OR UPDATE OF parent_comment_id, task_id ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.ensure_comment_thread_is_valid();
+
+-- Authors may edit their text but not move comments to another task
+DROP POLICY "Users can update own comments" ON public.comments;
+CREATE POLICY "Users can update own comments" ON public.comments FOR UPDATE USING (
+  auth.uid() = user_id
+) WITH CHECK (
+  auth.uid() = user_id
+);
@@ -0,0 +1,101 @@
+-- Create notifications table; rows are written by triggers only
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  actor_id UUID,
+  type TEXT NOT NULL CHECK (type IN ('mention')),
+  task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  comment_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.notifications
+ADD CONSTRAINT fk_notifications_user_id
+FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON DELETE CASCADE;
+
+ALTER TABLE public.notifications
+ADD CONSTRAINT fk_notifications_actor_id
+FOREIGN KEY (actor_id) REFERENCES public.profiles(user_id) ON DELETE SET NULL;
+
+CREATE INDEX idx_notifications_user_id ON public.notifications (user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications" ON public.notifications FOR SELECT USING (
+  auth.uid() = user_id
+);
+CREATE POLICY "Users can update their own notifications" ON public.notifications FOR UPDATE USING (
+  auth.uid() = user_id
+);
+CREATE POLICY "Users can delete their own notifications" ON public.notifications FOR DELETE USING (
+  auth.uid() = user_id
+);
+
+-- Recipients may only mark notifications as read
+REVOKE UPDATE ON public.notifications FROM anon, authenticated;
+GRANT UPDATE (read_at) ON public.notifications TO authenticated;
+
+-- Create comment mentions table
+CREATE TABLE public.comment_mentions (
+  comment_id UUID NOT NULL REFERENCES public.comments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (comment_id, user_id)
+);
+
+ALTER TABLE public.comment_mentions
+ADD CONSTRAINT fk_comment_mentions_user_id
+FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON DELETE CASCADE;
+
+CREATE INDEX idx_comment_mentions_user_id ON public.comment_mentions (user_id);
+
+ALTER TABLE public.comment_mentions ENABLE ROW LEVEL SECURITY;
+
+-- Resolve the project a comment belongs to
+CREATE OR REPLACE FUNCTION public.get_comment_project_id(p_comment_id UUID)
+RETURNS UUID AS $$
+  SELECT b.project_id
+  FROM public.comments c
+  JOIN public.tasks t ON t.id = c.task_id
+  JOIN public.boards b ON b.id = t.board_id
+  WHERE c.id = p_comment_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Create RLS policies for comment mentions
+CREATE POLICY "Users can view mentions for their projects" ON public.comment_mentions FOR SELECT USING (
+  public.is_project_member(public.get_comment_project_id(comment_id))
+);
+CREATE POLICY "Comment authors can add mentions of project members" ON public.comment_mentions FOR INSERT WITH CHECK (
+  auth.uid() = (SELECT user_id FROM public.comments WHERE id = comment_mentions.comment_id) AND
+  EXISTS (
+    SELECT 1 FROM public.project_members
+    WHERE project_id = public.get_comment_project_id(comment_mentions.comment_id)
+      AND user_id = comment_mentions.user_id
+  )
+);
+CREATE POLICY "Comment authors can remove mentions" ON public.comment_mentions FOR DELETE USING (
+  auth.uid() = (SELECT user_id FROM public.comments WHERE id = comment_mentions.comment_id)
+);
+
+-- Notify people when they are mentioned, except when they mention themselves
+CREATE OR REPLACE FUNCTION public.notify_comment_mention()
+RETURNS TRIGGER AS $$
+DECLARE
+  mention_comment public.comments%ROWTYPE;
+BEGIN
+  SELECT * INTO mention_comment FROM public.comments WHERE id = NEW.comment_id;
+
+  IF NEW.user_id IS DISTINCT FROM mention_comment.user_id THEN
+    INSERT INTO public.notifications (user_id, actor_id, type, task_id, comment_id)
+    VALUES (NEW.user_id, mention_comment.user_id, 'mention', mention_comment.task_id, NEW.comment_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_comment_mention
+  AFTER INSERT ON public.comment_mentions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_comment_mention();
@@ -0,0 +1,112 @@
+-- Allow the remaining notification types
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications
+ADD CONSTRAINT notifications_type_check
+CHECK (type IN ('assignment', 'mention', 'comment', 'due_soon'));
+
+CREATE INDEX idx_notifications_unread ON public.notifications (user_id) WHERE read_at IS NULL;
+
+ALTER TABLE public.notifications REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- Notify people when someone else assigns them
+CREATE OR REPLACE FUNCTION public.notify_task_assignment()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.user_id IS DISTINCT FROM auth.uid() THEN
+    INSERT INTO public.notifications (user_id, actor_id, type, task_id)
+    VALUES (NEW.user_id, auth.uid(), 'assignment', NEW.task_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_task_assignment
+  AFTER INSERT ON public.task_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_task_assignment();
+
+-- Notify the task's creator and assignees about new comments
+CREATE OR REPLACE FUNCTION public.notify_task_comment()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.notifications (user_id, actor_id, type, task_id, comment_id)
+  SELECT recipient, NEW.user_id, 'comment', NEW.task_id, NEW.id
+  FROM (
+    SELECT created_by AS recipient FROM public.tasks WHERE id = NEW.task_id
+    UNION
+    SELECT user_id FROM public.task_assignments WHERE task_id = NEW.task_id
+  ) recipients
+  WHERE recipient IS DISTINCT FROM NEW.user_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_task_comment
+  AFTER INSERT ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_task_comment();
+
+-- A mention in a comment replaces the plain comment notification for that person
+CREATE OR REPLACE FUNCTION public.notify_comment_mention()
+RETURNS TRIGGER AS $$
+DECLARE
+  mention_comment public.comments%ROWTYPE;
+BEGIN
+  SELECT * INTO mention_comment FROM public.comments WHERE id = NEW.comment_id;
+
+  IF NEW.user_id IS NOT DISTINCT FROM mention_comment.user_id THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.notifications
+  SET type = 'mention', read_at = NULL
+  WHERE comment_id = NEW.comment_id AND user_id = NEW.user_id AND type = 'comment';
+
+  IF NOT FOUND THEN
+    INSERT INTO public.notifications (user_id, actor_id, type, task_id, comment_id)
+    VALUES (NEW.user_id, mention_comment.user_id, 'mention', mention_comment.task_id, NEW.comment_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Remind assignees about open tasks due within the next day, once per due date
+CREATE OR REPLACE FUNCTION public.notify_due_soon_tasks()
+RETURNS INTEGER AS $$
+DECLARE
+  inserted INTEGER;
+BEGIN
+  INSERT INTO public.notifications (user_id, type, task_id)
+  SELECT ta.user_id, 'due_soon', t.id
+  FROM public.tasks t
+  JOIN public.task_assignments ta ON ta.task_id = t.id
+  JOIN public.board_columns bc ON bc.id = t.column_id
+  WHERE t.due_date BETWEEN now() AND now() + INTERVAL '1 day'
+    AND NOT bc.is_done
+    AND NOT EXISTS (
+      SELECT 1 FROM public.notifications n
+      WHERE n.task_id = t.id
+        AND n.user_id = ta.user_id
+        AND n.type = 'due_soon'
+        AND n.created_at >= t.due_date - INTERVAL '1 day'
+    );
+
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  RETURN inserted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.notify_due_soon_tasks() FROM PUBLIC, anon, authenticated;
+
+-- Check for approaching due dates every hour
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'notify-due-soon-tasks',
+  '0 * * * *',
+  $$SELECT public.notify_due_soon_tasks()$$
+);
@@ -0,0 +1,79 @@
+-- Move a batch of tasks to the end of a column in one transaction, keeping their
+-- board order. Subtasks follow their parent to another board, and subtasks moved
+-- without their parent are detached from it.
+CREATE OR REPLACE FUNCTION public.move_tasks_to_column(p_task_ids UUID[], p_column_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  target_board_id UUID;
+  task_ids UUID[];
+  base_position DOUBLE PRECISION;
+BEGIN
+  SELECT board_id INTO target_board_id FROM public.board_columns WHERE id = p_column_id;
+
+  IF target_board_id IS NULL THEN
+    RAISE EXCEPTION 'Column not found';
+  END IF;
+
+  -- Labels and members are per project, so tasks stay inside theirs
+  IF EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE id = ANY(p_task_ids)
+      AND public.get_board_project_id(board_id) IS DISTINCT FROM public.get_board_project_id(target_board_id)
+  ) THEN
+    RAISE EXCEPTION 'Tasks can only be moved to a board in the same project';
+  END IF;
+
+  UPDATE public.tasks
+  SET parent_task_id = NULL
+  WHERE id = ANY(p_task_ids)
+    AND board_id <> target_board_id
+    AND parent_task_id IS NOT NULL
+    AND NOT parent_task_id = ANY(p_task_ids);
+
+  SELECT array_agg(id ORDER BY position, created_at) INTO task_ids
+  FROM public.tasks
+  WHERE id = ANY(p_task_ids)
+     OR (parent_task_id = ANY(p_task_ids) AND board_id <> target_board_id);
+
+  SELECT COALESCE(MAX(position), 0) INTO base_position
+  FROM public.tasks
+  WHERE column_id = p_column_id AND NOT id = ANY(task_ids);
+
+  -- Parents go first so their subtasks pass the same-board check afterwards
+  UPDATE public.tasks t
+  SET board_id = target_board_id,
+      column_id = p_column_id,
+      position = base_position + ordered.rank * 1024
+  FROM unnest(task_ids) WITH ORDINALITY AS ordered(id, rank)
+  WHERE t.id = ordered.id AND t.parent_task_id IS NULL;
+
+  UPDATE public.tasks t
+  SET board_id = target_board_id,
+      column_id = p_column_id,
+      position = base_position + ordered.rank * 1024
+  FROM unnest(task_ids) WITH ORDINALITY AS ordered(id, rank)
+  WHERE t.id = ordered.id AND t.parent_task_id IS NOT NULL;
+
+  RETURN COALESCE(array_length(task_ids, 1), 0);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Move a batch of tasks into the first column of another board
+CREATE OR REPLACE FUNCTION public.move_tasks_to_board(p_task_ids UUID[], p_board_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  first_column_id UUID;
+BEGIN
+  SELECT id INTO first_column_id
+  FROM public.board_columns
+  WHERE board_id = p_board_id
+  ORDER BY position
+  LIMIT 1;
+
+  IF first_column_id IS NULL THEN
+    RAISE EXCEPTION 'The target board has no columns';
+  END IF;
+
+  RETURN public.move_tasks_to_column(p_task_ids, first_column_id);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,243 @@
+-- Moving and duplicating tasks across boards and projects. Both functions check
+-- membership of the source and the target project before touching anything, and
+-- return the attachment files the client has to relocate in storage:
+--   { task_id, dropped_assignees: [display names], attachments: [{ from, to }] }
+
+-- Members may move attachment files between the projects they belong to
+CREATE POLICY "Project members can move task attachments" ON storage.objects FOR UPDATE USING (
+  bucket_id = 'task-attachments' AND
+  public.is_project_member(public.get_attachment_project_id(name))
+) WITH CHECK (
+  bucket_id = 'task-attachments' AND
+  public.is_project_member(public.get_attachment_project_id(name))
+);
+
+-- Shared checks; returns the target board's project and first column
+CREATE OR REPLACE FUNCTION public.get_task_transfer_target(p_task_id UUID, p_board_id UUID)
+RETURNS TABLE (source_project_id UUID, target_project_id UUID, target_column_id UUID) AS $$
+BEGIN
+  SELECT public.get_board_project_id(board_id) INTO source_project_id
+  FROM public.tasks WHERE id = p_task_id;
+
+  target_project_id := public.get_board_project_id(p_board_id);
+
+  IF NOT public.is_project_member(source_project_id) OR NOT public.is_project_member(target_project_id) THEN
+    RAISE EXCEPTION 'You must be a member of both projects';
+  END IF;
+
+  SELECT id INTO target_column_id
+  FROM public.board_columns
+  WHERE board_id = p_board_id
+  ORDER BY position
+  LIMIT 1;
+
+  IF target_column_id IS NULL THEN
+    RAISE EXCEPTION 'The target board has no columns';
+  END IF;
+
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_task_transfer_target(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Move a task, with its subtasks, to the end of the first column of another board
+CREATE OR REPLACE FUNCTION public.move_task(p_task_id UUID, p_board_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  target RECORD;
+  task_ids UUID[];
+  dropped TEXT[];
+  moved_files JSONB;
+BEGIN
+  SELECT * INTO target FROM public.get_task_transfer_target(p_task_id, p_board_id);
+
+  SELECT array_agg(id) INTO task_ids
+  FROM public.tasks
+  WHERE id = p_task_id OR parent_task_id = p_task_id;
+
+  -- A subtask moved on its own leaves its parent behind
+  UPDATE public.tasks
+  SET parent_task_id = NULL
+  WHERE id = p_task_id AND parent_task_id IS NOT NULL
+    AND board_id <> p_board_id;
+
+  UPDATE public.tasks
+  SET board_id = p_board_id,
+      column_id = target.target_column_id,
+      position = (
+        SELECT COALESCE(MAX(position), 0) + 1024 FROM public.tasks WHERE column_id = target.target_column_id
+      )
+  WHERE id = p_task_id;
+
+  UPDATE public.tasks
+  SET board_id = p_board_id,
+      column_id = target.target_column_id
+  WHERE parent_task_id = p_task_id;
+
+  IF target.target_project_id = target.source_project_id THEN
+    RETURN jsonb_build_object('task_id', p_task_id, 'dropped_assignees', '[]'::JSONB, 'attachments', '[]'::JSONB);
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT COALESCE(p.display_name, 'Unknown User')), ARRAY[]::TEXT[]) INTO dropped
+  FROM public.task_assignments ta
+  LEFT JOIN public.profiles p ON p.user_id = ta.user_id
+  WHERE ta.task_id = ANY(task_ids)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.project_members pm
+      WHERE pm.project_id = target.target_project_id AND pm.user_id = ta.user_id
+    );
+
+  DELETE FROM public.task_assignments ta
+  WHERE ta.task_id = ANY(task_ids)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.project_members pm
+      WHERE pm.project_id = target.target_project_id AND pm.user_id = ta.user_id
+    );
+
+  -- Labels are per project: keep ones with a same-named label in the target
+  INSERT INTO public.task_labels (task_id, label_id)
+  SELECT tl.task_id, target_label.id
+  FROM public.task_labels tl
+  JOIN public.labels source_label ON source_label.id = tl.label_id
+  JOIN public.labels target_label
+    ON target_label.project_id = target.target_project_id
+   AND lower(target_label.name) = lower(source_label.name)
+  WHERE tl.task_id = ANY(task_ids)
+  ON CONFLICT DO NOTHING;
+
+  DELETE FROM public.task_labels tl
+  USING public.labels l
+  WHERE l.id = tl.label_id
+    AND tl.task_id = ANY(task_ids)
+    AND l.project_id <> target.target_project_id;
+
+  -- Files are stored under <project_id>/<task_id>/, so they follow the task
+  WITH moved AS (
+    UPDATE public.attachments a
+    SET file_path = target.target_project_id || '/' || a.task_id || '/' || regexp_replace(a.file_path, '^.*/', '')
+    FROM public.attachments old
+    WHERE old.id = a.id AND a.task_id = ANY(task_ids)
+    RETURNING old.file_path AS from_path, a.file_path AS to_path
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('from', from_path, 'to', to_path)), '[]'::JSONB)
+  INTO moved_files
+  FROM moved;
+
+  RETURN jsonb_build_object('task_id', p_task_id, 'dropped_assignees', to_jsonb(dropped), 'attachments', moved_files);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Copy a task with its comments, assignments, checklist and attachments to another board
+CREATE OR REPLACE FUNCTION public.duplicate_task(p_task_id UUID, p_board_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  target RECORD;
+  source public.tasks%ROWTYPE;
+  new_task_id UUID := gen_random_uuid();
+  comment_row public.comments%ROWTYPE;
+  comment_ids JSONB := '{}'::JSONB;
+  new_comment_id UUID;
+  dropped TEXT[];
+  copied_files JSONB;
+BEGIN
+  SELECT * INTO target FROM public.get_task_transfer_target(p_task_id, p_board_id);
+  SELECT * INTO source FROM public.tasks WHERE id = p_task_id;
+
+  INSERT INTO public.tasks (
+    id, board_id, column_id, parent_task_id, title, description, position,
+    due_date, priority, story_points, created_by
+  )
+  VALUES (
+    new_task_id,
+    p_board_id,
+    target.target_column_id,
+    CASE WHEN source.board_id = p_board_id THEN source.parent_task_id END,
+    source.title,
+    source.description,
+    (SELECT COALESCE(MAX(position), 0) + 1024 FROM public.tasks WHERE column_id = target.target_column_id),
+    source.due_date,
+    source.priority,
+    source.story_points,
+    auth.uid()
+  );
+
+  -- Top-level comments first so replies can point at their copies
+  FOR comment_row IN
+    SELECT * FROM public.comments
+    WHERE task_id = p_task_id
+    ORDER BY parent_comment_id NULLS FIRST, created_at
+  LOOP
+    new_comment_id := gen_random_uuid();
+    comment_ids := comment_ids || jsonb_build_object(comment_row.id::TEXT, new_comment_id);
+
+    INSERT INTO public.comments (id, task_id, user_id, content, parent_comment_id, created_at, updated_at)
+    VALUES (
+      new_comment_id,
+      new_task_id,
+      comment_row.user_id,
+      comment_row.content,
+      (comment_ids ->> comment_row.parent_comment_id::TEXT)::UUID,
+      comment_row.created_at,
+      comment_row.updated_at
+    );
+  END LOOP;
+
+  -- Copied history shouldn't notify anyone a second time
+  DELETE FROM public.notifications WHERE task_id = new_task_id;
+
+  SELECT COALESCE(array_agg(DISTINCT COALESCE(p.display_name, 'Unknown User')), ARRAY[]::TEXT[]) INTO dropped
+  FROM public.task_assignments ta
+  LEFT JOIN public.profiles p ON p.user_id = ta.user_id
+  WHERE ta.task_id = p_task_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.project_members pm
+      WHERE pm.project_id = target.target_project_id AND pm.user_id = ta.user_id
+    );
+
+  INSERT INTO public.task_assignments (task_id, user_id)
+  SELECT new_task_id, ta.user_id
+  FROM public.task_assignments ta
+  WHERE ta.task_id = p_task_id
+    AND EXISTS (
+      SELECT 1 FROM public.project_members pm
+      WHERE pm.project_id = target.target_project_id AND pm.user_id = ta.user_id
+    );
+
+  INSERT INTO public.task_labels (task_id, label_id)
+  SELECT DISTINCT new_task_id, target_label.id
+  FROM public.task_labels tl
+  JOIN public.labels source_label ON source_label.id = tl.label_id
+  JOIN public.labels target_label
+    ON target_label.project_id = target.target_project_id
+   AND lower(target_label.name) = lower(source_label.name)
+  WHERE tl.task_id = p_task_id;
+
+  INSERT INTO public.task_checklist_items (task_id, content, is_done, position)
+  SELECT new_task_id, content, is_done, position
+  FROM public.task_checklist_items
+  WHERE task_id = p_task_id;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'from', file_path,
+    'to', target.target_project_id || '/' || new_task_id || '/' || regexp_replace(file_path, '^.*/', '')
+  )), '[]'::JSONB)
+  INTO copied_files
+  FROM public.attachments
+  WHERE task_id = p_task_id;
+
+  INSERT INTO public.attachments (task_id, uploaded_by, file_name, file_path, content_type, size_bytes, created_at)
+  SELECT
+    new_task_id,
+    uploaded_by,
+    file_name,
+    target.target_project_id || '/' || new_task_id || '/' || regexp_replace(file_path, '^.*/', ''),
+    content_type,
+    size_bytes,
+    created_at
+  FROM public.attachments
+  WHERE task_id = p_task_id;
+
+  RETURN jsonb_build_object('task_id', new_task_id, 'dropped_assignees', to_jsonb(dropped), 'attachments', copied_files);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
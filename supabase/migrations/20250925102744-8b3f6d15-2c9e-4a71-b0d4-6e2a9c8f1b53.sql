@@ -0,0 +1,119 @@
+-- Soft delete for tasks: archived tasks leave the board but stay in an Archived
+-- view, deleted tasks sit in the project trash until they are restored or purged
+ALTER TABLE public.tasks
+ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_tasks_deleted_at ON public.tasks (deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Trashing and restoring follow the same rule as deleting: owners and admins only
+CREATE OR REPLACE FUNCTION public.ensure_task_deletion_allowed()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.deleted_at IS DISTINCT FROM OLD.deleted_at AND NOT public.has_project_role(
+    public.get_board_project_id(NEW.board_id),
+    ARRAY['owner', 'admin']::public.project_role[]
+  ) THEN
+    RAISE EXCEPTION 'Only project owners and admins can delete or restore tasks';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER ensure_task_deletion_allowed
+  BEFORE UPDATE OF deleted_at ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.ensure_task_deletion_allowed();
+
+-- Subtasks are archived, trashed and restored together with their parent
+CREATE OR REPLACE FUNCTION public.cascade_task_visibility()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_task_id IS NOT NULL THEN
+    IF (NEW.deleted_at IS NULL AND OLD.deleted_at IS NOT NULL AND EXISTS (
+          SELECT 1 FROM public.tasks WHERE id = NEW.parent_task_id AND deleted_at IS NOT NULL
+        ))
+       OR (NEW.archived_at IS NULL AND OLD.archived_at IS NOT NULL AND EXISTS (
+          SELECT 1 FROM public.tasks WHERE id = NEW.parent_task_id AND archived_at IS NOT NULL
+        )) THEN
+      RAISE EXCEPTION 'Restore the parent task first';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.deleted_at IS DISTINCT FROM OLD.deleted_at THEN
+    UPDATE public.tasks
+    SET deleted_at = NEW.deleted_at
+    WHERE parent_task_id = NEW.id
+      AND deleted_at IS NOT DISTINCT FROM OLD.deleted_at;
+  END IF;
+
+  IF NEW.archived_at IS DISTINCT FROM OLD.archived_at THEN
+    UPDATE public.tasks
+    SET archived_at = NEW.archived_at
+    WHERE parent_task_id = NEW.id
+      AND archived_at IS NOT DISTINCT FROM OLD.archived_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER cascade_task_visibility
+  AFTER UPDATE OF deleted_at, archived_at ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.cascade_task_visibility();
+
+-- Trashed and archived tasks don't need due date reminders
+CREATE OR REPLACE FUNCTION public.notify_due_soon_tasks()
+RETURNS INTEGER AS $$
+DECLARE
+  inserted INTEGER;
+BEGIN
+  INSERT INTO public.notifications (user_id, type, task_id)
+  SELECT ta.user_id, 'due_soon', t.id
+  FROM public.tasks t
+  JOIN public.task_assignments ta ON ta.task_id = t.id
+  JOIN public.board_columns bc ON bc.id = t.column_id
+  WHERE t.due_date BETWEEN now() AND now() + INTERVAL '1 day'
+    AND t.deleted_at IS NULL
+    AND t.archived_at IS NULL
+    AND NOT bc.is_done
+    AND NOT EXISTS (
+      SELECT 1 FROM public.notifications n
+      WHERE n.task_id = t.id
+        AND n.user_id = ta.user_id
+        AND n.type = 'due_soon'
+        AND n.created_at >= t.due_date - INTERVAL '1 day'
+    );
+
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  RETURN inserted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Permanently delete tasks that have been in the trash longer than the retention
+-- period. Storage objects can't be removed from SQL, so attachment files of purged
+-- tasks are left in the bucket; deleting from the trash in the app removes them.
+CREATE OR REPLACE FUNCTION public.purge_deleted_tasks(p_retention INTERVAL DEFAULT INTERVAL '30 days')
+RETURNS INTEGER AS $$
+DECLARE
+  purged INTEGER;
+BEGIN
+  DELETE FROM public.tasks
+  WHERE deleted_at < now() - p_retention;
+
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.purge_deleted_tasks(INTERVAL) FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'purge-deleted-tasks',
+  '30 3 * * *',
+  $$SELECT public.purge_deleted_tasks()$$
+);
@@ -0,0 +1,22 @@
+-- Comments stay on the task they were written on. The update policy only checks the
+-- author, so moving a comment (or re-threading it) is blocked here instead. Clearing
+-- parent_comment_id stays allowed, since deleting a parent does exactly that.
+CREATE OR REPLACE FUNCTION public.ensure_comment_stays_in_place()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.task_id IS DISTINCT FROM OLD.task_id THEN
+    RAISE EXCEPTION 'Comments cannot be moved to another task';
+  END IF;
+
+  IF NEW.parent_comment_id IS DISTINCT FROM OLD.parent_comment_id AND NEW.parent_comment_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Replies cannot be moved to another thread';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER ensure_comment_stays_in_place
+  BEFORE UPDATE OF task_id, parent_comment_id ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.ensure_comment_stays_in_place();
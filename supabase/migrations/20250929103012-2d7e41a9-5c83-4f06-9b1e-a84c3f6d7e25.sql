@@ -0,0 +1,94 @@
+-- Moving a task to another project takes it away from everyone in the source project,
+-- so it follows the same rule as deleting: owners and admins of the source only
+CREATE OR REPLACE FUNCTION public.move_task(p_task_id UUID, p_board_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  target RECORD;
+  task_ids UUID[];
+  dropped TEXT[];
+  moved_files JSONB;
+BEGIN
+  SELECT * INTO target FROM public.get_task_transfer_target(p_task_id, p_board_id);
+
+  IF target.target_project_id <> target.source_project_id AND NOT public.has_project_role(
+    target.source_project_id,
+    ARRAY['owner', 'admin']::public.project_role[]
+  ) THEN
+    RAISE EXCEPTION 'Only project owners and admins can move tasks to another project';
+  END IF;
+
+  SELECT array_agg(id) INTO task_ids
+  FROM public.tasks
+  WHERE id = p_task_id OR parent_task_id = p_task_id;
+
+  -- A subtask moved on its own leaves its parent behind
+  UPDATE public.tasks
+  SET parent_task_id = NULL
+  WHERE id = p_task_id AND parent_task_id IS NOT NULL
+    AND board_id <> p_board_id;
+
+  UPDATE public.tasks
+  SET board_id = p_board_id,
+      column_id = target.target_column_id,
+      position = (
+        SELECT COALESCE(MAX(position), 0) + 1024 FROM public.tasks WHERE column_id = target.target_column_id
+      )
+  WHERE id = p_task_id;
+
+  UPDATE public.tasks
+  SET board_id = p_board_id,
+      column_id = target.target_column_id
+  WHERE parent_task_id = p_task_id;
+
+  IF target.target_project_id = target.source_project_id THEN
+    RETURN jsonb_build_object('task_id', p_task_id, 'dropped_assignees', '[]'::JSONB, 'attachments', '[]'::JSONB);
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT COALESCE(p.display_name, 'Unknown User')), ARRAY[]::TEXT[]) INTO dropped
+  FROM public.task_assignments ta
+  LEFT JOIN public.profiles p ON p.user_id = ta.user_id
+  WHERE ta.task_id = ANY(task_ids)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.project_members pm
+      WHERE pm.project_id = target.target_project_id AND pm.user_id = ta.user_id
+    );
+
+  DELETE FROM public.task_assignments ta
+  WHERE ta.task_id = ANY(task_ids)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.project_members pm
+      WHERE pm.project_id = target.target_project_id AND pm.user_id = ta.user_id
+    );
+
+  -- Labels are per project: keep ones with a same-named label in the target
+  INSERT INTO public.task_labels (task_id, label_id)
+  SELECT tl.task_id, target_label.id
+  FROM public.task_labels tl
+  JOIN public.labels source_label ON source_label.id = tl.label_id
+  JOIN public.labels target_label
+    ON target_label.project_id = target.target_project_id
+   AND lower(target_label.name) = lower(source_label.name)
+  WHERE tl.task_id = ANY(task_ids)
+  ON CONFLICT DO NOTHING;
+
+  DELETE FROM public.task_labels tl
+  USING public.labels l
+  WHERE l.id = tl.label_id
+    AND tl.task_id = ANY(task_ids)
+    AND l.project_id <> target.target_project_id;
+
+  -- Files are stored under <project_id>/<task_id>/, so they follow the task
+  WITH moved AS (
+    UPDATE public.attachments a
+    SET file_path = target.target_project_id || '/' || a.task_id || '/' || regexp_replace(a.file_path, '^.*/', '')
+    FROM public.attachments old
+    WHERE old.id = a.id AND a.task_id = ANY(task_ids)
+    RETURNING old.file_path AS from_path, a.file_path AS to_path
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('from', from_path, 'to', to_path)), '[]'::JSONB)
+  INTO moved_files
+  FROM moved;
+
+  RETURN jsonb_build_object('task_id', p_task_id, 'dropped_assignees', to_jsonb(dropped), 'attachments', moved_files);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,114 @@
+-- duplicate_task cleared the copy's notifications before copying its assignments, so
+-- assignees were still notified. Clear them once everything has been copied instead.
+CREATE OR REPLACE FUNCTION public.duplicate_task(p_task_id UUID, p_board_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  target RECORD;
+  source public.tasks%ROWTYPE;
+  new_task_id UUID := gen_random_uuid();
+  comment_row public.comments%ROWTYPE;
+  comment_ids JSONB := '{}'::JSONB;
+  new_comment_id UUID;
+  dropped TEXT[];
+  copied_files JSONB;
+BEGIN
+  SELECT * INTO target FROM public.get_task_transfer_target(p_task_id, p_board_id);
+  SELECT * INTO source FROM public.tasks WHERE id = p_task_id;
+
+  INSERT INTO public.tasks (
+    id, board_id, column_id, parent_task_id, title, description, position,
+    due_date, priority, story_points, created_by
+  )
+  VALUES (
+    new_task_id,
+    p_board_id,
+    target.target_column_id,
+    CASE WHEN source.board_id = p_board_id THEN source.parent_task_id END,
+    source.title,
+    source.description,
+    (SELECT COALESCE(MAX(position), 0) + 1024 FROM public.tasks WHERE column_id = target.target_column_id),
+    source.due_date,
+    source.priority,
+    source.story_points,
+    auth.uid()
+  );
+
+  -- Top-level comments first so replies can point at their copies
+  FOR comment_row IN
+    SELECT * FROM public.comments
+    WHERE task_id = p_task_id
+    ORDER BY parent_comment_id NULLS FIRST, created_at
+  LOOP
+    new_comment_id := gen_random_uuid();
+    comment_ids := comment_ids || jsonb_build_object(comment_row.id::TEXT, new_comment_id);
+
+    INSERT INTO public.comments (id, task_id, user_id, content, parent_comment_id, created_at, updated_at)
+    VALUES (
+      new_comment_id,
+      new_task_id,
+      comment_row.user_id,
+      comment_row.content,
+      (comment_ids ->> comment_row.parent_comment_id::TEXT)::UUID,
+      comment_row.created_at,
+      comment_row.updated_at
+    );
+  END LOOP;
+
+  SELECT COALESCE(array_agg(DISTINCT COALESCE(p.display_name, 'Unknown User')), ARRAY[]::TEXT[]) INTO dropped
+  FROM public.task_assignments ta
+  LEFT JOIN public.profiles p ON p.user_id = ta.user_id
+  WHERE ta.task_id = p_task_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.project_members pm
+      WHERE pm.project_id = target.target_project_id AND pm.user_id = ta.user_id
+    );
+
+  INSERT INTO public.task_assignments (task_id, user_id)
+  SELECT new_task_id, ta.user_id
+  FROM public.task_assignments ta
+  WHERE ta.task_id = p_task_id
+    AND EXISTS (
+      SELECT 1 FROM public.project_members pm
+      WHERE pm.project_id = target.target_project_id AND pm.user_id = ta.user_id
+    );
+
+  INSERT INTO public.task_labels (task_id, label_id)
+  SELECT DISTINCT new_task_id, target_label.id
+  FROM public.task_labels tl
+  JOIN public.labels source_label ON source_label.id = tl.label_id
+  JOIN public.labels target_label
+    ON target_label.project_id = target.target_project_id
+   AND lower(target_label.name) = lower(source_label.name)
+  WHERE tl.task_id = p_task_id;
+
+  INSERT INTO public.task_checklist_items (task_id, content, is_done, position)
+  SELECT new_task_id, content, is_done, position
+  FROM public.task_checklist_items
+  WHERE task_id = p_task_id;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'from', file_path,
+    'to', target.target_project_id || '/' || new_task_id || '/' || regexp_replace(file_path, '^.*/', '')
+  )), '[]'::JSONB)
+  INTO copied_files
+  FROM public.attachments
+  WHERE task_id = p_task_id;
+
+  INSERT INTO public.attachments (task_id, uploaded_by, file_name, file_path, content_type, size_bytes, created_at)
+  SELECT
+    new_task_id,
+    uploaded_by,
+    file_name,
+    target.target_project_id || '/' || new_task_id || '/' || regexp_replace(file_path, '^.*/', ''),
+    content_type,
+    size_bytes,
+    created_at
+  FROM public.attachments
+  WHERE task_id = p_task_id;
+
+  -- Copied comments and assignments shouldn't notify anyone a second time
+  DELETE FROM public.notifications WHERE task_id = new_task_id;
+
+  RETURN jsonb_build_object('task_id', new_task_id, 'dropped_assignees', to_jsonb(dropped), 'attachments', copied_files);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
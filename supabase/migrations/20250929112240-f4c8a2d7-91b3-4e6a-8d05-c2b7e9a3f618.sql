@@ -0,0 +1,276 @@
+-- move_task and duplicate_task rewrote attachment rows before the client had moved
+-- the files, so a failed storage call left rows pointing at nothing. They now only
+-- return { id, from, to } for each file; the client moves or copies it and then
+-- calls relocate_attachment or copy_attachment, which update the rows only for files
+-- that are in place. A file that fails to move keeps its old, still valid, path.
+
+-- Move a task, with its subtasks, to the end of the first column of another board
+CREATE OR REPLACE FUNCTION public.move_task(p_task_id UUID, p_board_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  target RECORD;
+  task_ids UUID[];
+  dropped TEXT[];
+  moved_files JSONB;
+BEGIN
+  SELECT * INTO target FROM public.get_task_transfer_target(p_task_id, p_board_id);
+
+  IF target.target_project_id <> target.source_project_id AND NOT public.has_project_role(
+    target.source_project_id,
+    ARRAY['owner', 'admin']::public.project_role[]
+  ) THEN
+    RAISE EXCEPTION 'Only project owners and admins can move tasks to another project';
+  END IF;
+
+  SELECT array_agg(id) INTO task_ids
+  FROM public.tasks
+  WHERE id = p_task_id OR parent_task_id = p_task_id;
+
+  -- A subtask moved on its own leaves its parent behind
+  UPDATE public.tasks
+  SET parent_task_id = NULL
+  WHERE id = p_task_id AND parent_task_id IS NOT NULL
+    AND board_id <> p_board_id;
+
+  UPDATE public.tasks
+  SET board_id = p_board_id,
+      column_id = target.target_column_id,
+      position = (
+        SELECT COALESCE(MAX(position), 0) + 1024 FROM public.tasks WHERE column_id = target.target_column_id
+      )
+  WHERE id = p_task_id;
+
+  UPDATE public.tasks
+  SET board_id = p_board_id,
+      column_id = target.target_column_id
+  WHERE parent_task_id = p_task_id;
+
+  IF target.target_project_id = target.source_project_id THEN
+    RETURN jsonb_build_object('task_id', p_task_id, 'dropped_assignees', '[]'::JSONB, 'attachments', '[]'::JSONB);
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT COALESCE(p.display_name, 'Unknown User')), ARRAY[]::TEXT[]) INTO dropped
+  FROM public.task_assignments ta
+  LEFT JOIN public.profiles p ON p.user_id = ta.user_id
+  WHERE ta.task_id = ANY(task_ids)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.project_members pm
+      WHERE pm.project_id = target.target_project_id AND pm.user_id = ta.user_id
+    );
+
+  DELETE FROM public.task_assignments ta
+  WHERE ta.task_id = ANY(task_ids)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.project_members pm
+      WHERE pm.project_id = target.target_project_id AND pm.user_id = ta.user_id
+    );
+
+  -- Labels are per project: keep ones with a same-named label in the target
+  INSERT INTO public.task_labels (task_id, label_id)
+  SELECT tl.task_id, target_label.id
+  FROM public.task_labels tl
+  JOIN public.labels source_label ON source_label.id = tl.label_id
+  JOIN public.labels target_label
+    ON target_label.project_id = target.target_project_id
+   AND lower(target_label.name) = lower(source_label.name)
+  WHERE tl.task_id = ANY(task_ids)
+  ON CONFLICT DO NOTHING;
+
+  DELETE FROM public.task_labels tl
+  USING public.labels l
+  WHERE l.id = tl.label_id
+    AND tl.task_id = ANY(task_ids)
+    AND l.project_id <> target.target_project_id;
+
+  -- Files are stored under <project_id>/<task_id>/, so they follow the task. The
+  -- rows keep their path until the file has been moved, see relocate_attachment
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', id,
+    'from', file_path,
+    'to', target.target_project_id || '/' || task_id || '/' || regexp_replace(file_path, '^.*/', '')
+  )), '[]'::JSONB)
+  INTO moved_files
+  FROM public.attachments
+  WHERE task_id = ANY(task_ids);
+
+  RETURN jsonb_build_object('task_id', p_task_id, 'dropped_assignees', to_jsonb(dropped), 'attachments', moved_files);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Copy a task with its comments, assignments, checklist and attachments to another board
+CREATE OR REPLACE FUNCTION public.duplicate_task(p_task_id UUID, p_board_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  target RECORD;
+  source public.tasks%ROWTYPE;
+  new_task_id UUID := gen_random_uuid();
+  comment_row public.comments%ROWTYPE;
+  comment_ids JSONB := '{}'::JSONB;
+  new_comment_id UUID;
+  dropped TEXT[];
+  copied_files JSONB;
+BEGIN
+  SELECT * INTO target FROM public.get_task_transfer_target(p_task_id, p_board_id);
+  SELECT * INTO source FROM public.tasks WHERE id = p_task_id;
+
+  INSERT INTO public.tasks (
+    id, board_id, column_id, parent_task_id, title, description, position,
+    due_date, priority, story_points, created_by
+  )
+  VALUES (
+    new_task_id,
+    p_board_id,
+    target.target_column_id,
+    CASE WHEN source.board_id = p_board_id THEN source.parent_task_id END,
+    source.title,
+    source.description,
+    (SELECT COALESCE(MAX(position), 0) + 1024 FROM public.tasks WHERE column_id = target.target_column_id),
+    source.due_date,
+    source.priority,
+    source.story_points,
+    auth.uid()
+  );
+
+  -- Top-level comments first so replies can point at their copies
+  FOR comment_row IN
+    SELECT * FROM public.comments
+    WHERE task_id = p_task_id
+    ORDER BY parent_comment_id NULLS FIRST, created_at
+  LOOP
+    new_comment_id := gen_random_uuid();
+    comment_ids := comment_ids || jsonb_build_object(comment_row.id::TEXT, new_comment_id);
+
+    INSERT INTO public.comments (id, task_id, user_id, content, parent_comment_id, created_at, updated_at)
+    VALUES (
+      new_comment_id,
+      new_task_id,
+      comment_row.user_id,
+      comment_row.content,
+      (comment_ids ->> comment_row.parent_comment_id::TEXT)::UUID,
+      comment_row.created_at,
+      comment_row.updated_at
+    );
+  END LOOP;
+
+  SELECT COALESCE(array_agg(DISTINCT COALESCE(p.display_name, 'Unknown User')), ARRAY[]::TEXT[]) INTO dropped
+  FROM public.task_assignments ta
+  LEFT JOIN public.profiles p ON p.user_id = ta.user_id
+  WHERE ta.task_id = p_task_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.project_members pm
+      WHERE pm.project_id = target.target_project_id AND pm.user_id = ta.user_id
+    );
+
+  INSERT INTO public.task_assignments (task_id, user_id)
+  SELECT new_task_id, ta.user_id
+  FROM public.task_assignments ta
+  WHERE ta.task_id = p_task_id
+    AND EXISTS (
+      SELECT 1 FROM public.project_members pm
+      WHERE pm.project_id = target.target_project_id AND pm.user_id = ta.user_id
+    );
+
+  INSERT INTO public.task_labels (task_id, label_id)
+  SELECT DISTINCT new_task_id, target_label.id
+  FROM public.task_labels tl
+  JOIN public.labels source_label ON source_label.id = tl.label_id
+  JOIN public.labels target_label
+    ON target_label.project_id = target.target_project_id
+   AND lower(target_label.name) = lower(source_label.name)
+  WHERE tl.task_id = p_task_id;
+
+  INSERT INTO public.task_checklist_items (task_id, content, is_done, position)
+  SELECT new_task_id, content, is_done, position
+  FROM public.task_checklist_items
+  WHERE task_id = p_task_id;
+
+  -- The rows are added once each file has been copied, see copy_attachment
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', id,
+    'from', file_path,
+    'to', target.target_project_id || '/' || new_task_id || '/' || regexp_replace(file_path, '^.*/', '')
+  )), '[]'::JSONB)
+  INTO copied_files
+  FROM public.attachments
+  WHERE task_id = p_task_id;
+
+  -- Copied comments and assignments shouldn't notify anyone a second time
+  DELETE FROM public.notifications WHERE task_id = new_task_id;
+
+  RETURN jsonb_build_object('task_id', new_task_id, 'dropped_assignees', to_jsonb(dropped), 'attachments', copied_files);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Point a moved task's attachment at its file under the task's current project
+CREATE OR REPLACE FUNCTION public.relocate_attachment(p_attachment_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  attachment public.attachments%ROWTYPE;
+  project_id UUID;
+  new_path TEXT;
+BEGIN
+  SELECT * INTO attachment FROM public.attachments WHERE id = p_attachment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attachment not found';
+  END IF;
+
+  project_id := public.get_board_project_id((SELECT board_id FROM public.tasks WHERE id = attachment.task_id));
+
+  IF NOT public.is_project_member(project_id) THEN
+    RAISE EXCEPTION 'You must be a member of the project';
+  END IF;
+
+  new_path := project_id || '/' || attachment.task_id || '/' || regexp_replace(attachment.file_path, '^.*/', '');
+
+  IF NOT EXISTS (SELECT 1 FROM storage.objects WHERE bucket_id = 'task-attachments' AND name = new_path) THEN
+    RAISE EXCEPTION 'The attachment file has not been moved';
+  END IF;
+
+  UPDATE public.attachments SET file_path = new_path WHERE id = p_attachment_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Add an attachment row to a duplicated task once its file has been copied
+CREATE OR REPLACE FUNCTION public.copy_attachment(p_attachment_id UUID, p_task_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  attachment public.attachments%ROWTYPE;
+  project_id UUID;
+  new_path TEXT;
+BEGIN
+  SELECT * INTO attachment FROM public.attachments WHERE id = p_attachment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attachment not found';
+  END IF;
+
+  project_id := public.get_board_project_id((SELECT board_id FROM public.tasks WHERE id = p_task_id));
+
+  IF NOT public.is_project_member(
+    public.get_board_project_id((SELECT board_id FROM public.tasks WHERE id = attachment.task_id))
+  ) OR NOT public.is_project_member(project_id) THEN
+    RAISE EXCEPTION 'You must be a member of both projects';
+  END IF;
+
+  new_path := project_id || '/' || p_task_id || '/' || regexp_replace(attachment.file_path, '^.*/', '');
+
+  IF NOT EXISTS (SELECT 1 FROM storage.objects WHERE bucket_id = 'task-attachments' AND name = new_path) THEN
+    RAISE EXCEPTION 'The attachment file has not been copied';
+  END IF;
+
+  -- Retrying a copy doesn't add the row twice
+  IF EXISTS (SELECT 1 FROM public.attachments WHERE task_id = p_task_id AND file_path = new_path) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.attachments (task_id, uploaded_by, file_name, file_path, content_type, size_bytes, created_at)
+  VALUES (
+    p_task_id,
+    attachment.uploaded_by,
+    attachment.file_name,
+    new_path,
+    attachment.content_type,
+    attachment.size_bytes,
+    attachment.created_at
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
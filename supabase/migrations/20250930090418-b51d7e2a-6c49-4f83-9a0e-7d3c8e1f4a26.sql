@@ -0,0 +1,6 @@
+-- The projects SELECT policy compared project_members.project_id with
+-- project_members.id, so members who don't own a project could never read it
+DROP POLICY "Users can view projects they're members of" ON public.projects;
+CREATE POLICY "Users can view projects they're members of" ON public.projects FOR SELECT USING (
+  public.is_project_member(id) OR owner_id = auth.uid()
+);
@@ -0,0 +1,15 @@
+-- Inserts only run the WITH CHECK, which didn't check membership, so anyone could
+-- label tasks in projects they don't belong to
+DROP POLICY "Project members can manage task labels" ON public.task_labels;
+CREATE POLICY "Project members can manage task labels" ON public.task_labels FOR ALL USING (
+  public.is_project_member(
+    public.get_board_project_id((SELECT board_id FROM public.tasks WHERE id = task_labels.task_id))
+  )
+) WITH CHECK (
+  public.is_project_member(
+    public.get_board_project_id((SELECT board_id FROM public.tasks WHERE id = task_labels.task_id))
+  ) AND
+  -- Labels can only be applied to tasks in the label's own project
+  (SELECT project_id FROM public.labels WHERE id = task_labels.label_id) =
+  public.get_board_project_id((SELECT board_id FROM public.tasks WHERE id = task_labels.task_id))
+);
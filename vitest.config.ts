@@ -0,0 +1,16 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Kept apart from vite.config.ts so tests don't need the dev server plugins
+export default defineConfig({
+  test: {
+    // West of UTC, where due dates (midnight UTC) fall on the previous local day
+    env: { TZ: "America/New_York" },
+    include: ["src/**/*.test.ts"],
+  },
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+});